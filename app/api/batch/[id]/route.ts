@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BatchVerifier } from '@/lib/batch-verifier';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * Progress and per-applicant results of a batch. `?format=csv` downloads
+ * the result table and `?format=json` the rows with their full
+ * verification results.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const format = request.nextUrl.searchParams.get('format');
+  if (format !== null && format !== 'csv' && format !== 'json') {
+    return NextResponse.json(
+      { error: 'Invalid request', details: 'format must be csv or json' },
+      { status: 400 }
+    );
+  }
+
+  const batch = BatchVerifier.getInstance().get(params.id, format === 'json');
+  if (!batch) {
+    return NextResponse.json(
+      { error: 'Batch not found', details: `No batch ${params.id}; finished batches expire after BATCH_RETENTION_MS` },
+      { status: 404 }
+    );
+  }
+
+  if (format === 'csv') {
+    return new NextResponse(BatchVerifier.toCSV(batch), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="batch-${batch.id}.csv"`,
+      },
+    });
+  }
+
+  if (format === 'json') {
+    return NextResponse.json(batch, {
+      headers: { 'Content-Disposition': `attachment; filename="batch-${batch.id}.json"` },
+    });
+  }
+
+  return NextResponse.json(batch);
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BatchInputError, BatchVerifier, loadBatchConfig } from '@/lib/batch-verifier';
+import { ManifestError } from '@/lib/manifest-parser';
+import { RequestSchema, RequestValidationError } from '@/lib/request-schema';
+import { UploadTooLargeError, UploadValidator, loadUploadConfig } from '@/lib/upload-validator';
+import {
+  DEFAULT_POLICY_ID,
+  NoEffectivePolicyError,
+  PolicyNotFoundError,
+  PolicyStore,
+} from '@/lib/policy-store';
+
+export const runtime = 'nodejs';
+
+/**
+ * Starts a batch verification. Multipart body: a `manifest` file (CSV or
+ * JSON Lines, one applicant per row), a `documents` zip holding the images
+ * the rows name, and optional `policyId` and `policyVersion` fields. Responds
+ * 202 with the batch id; progress and results are read from
+ * `/api/batch/{id}`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { maxRequestBytes } = loadBatchConfig();
+    UploadValidator.checkContentLength(request.headers.get('content-length'), { ...loadUploadConfig(), maxRequestBytes });
+
+    const contentType = request.headers.get('content-type') || '';
+    if (!contentType.startsWith('multipart/form-data')) {
+      throw new RequestValidationError([
+        { path: '', message: 'Send the manifest and documents archive as multipart/form-data' },
+      ]);
+    }
+
+    const form = await request.formData();
+    const body: { [key: string]: unknown } = {};
+    for (const [key, part] of Array.from(form.entries())) {
+      body[key] =
+        typeof part === 'string' ? part : { fileName: part.name, data: Buffer.from(await part.arrayBuffer()) };
+    }
+    const { manifest, documents, policyId, policyVersion } = RequestSchema.parseBatchRequest(body);
+
+    const policyRecord = await PolicyStore.getInstance().resolve(policyId || DEFAULT_POLICY_ID, policyVersion);
+    const batch = BatchVerifier.getInstance().submit(manifest, documents, policyRecord);
+
+    const statusUrl = `/api/batch/${batch.id}`;
+    return NextResponse.json(
+      { batchId: batch.id, status: batch.status, summary: batch.summary, statusUrl },
+      { status: 202, headers: { Location: statusUrl } }
+    );
+  } catch (error: any) {
+    if (error instanceof RequestValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.message, fields: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ManifestError) {
+      return NextResponse.json(
+        { error: 'Invalid manifest', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof BatchInputError) {
+      return NextResponse.json(
+        { error: 'Invalid batch', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof UploadTooLargeError) {
+      return NextResponse.json(
+        { error: 'Upload too large', details: error.message },
+        { status: 413 }
+      );
+    }
+
+    if (error instanceof PolicyNotFoundError) {
+      return NextResponse.json(
+        { error: 'Unknown policy', details: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof NoEffectivePolicyError) {
+      return NextResponse.json(
+        { error: 'No policy in force', details: error.message },
+        { status: 422 }
+      );
+    }
+
+    console.error('Batch error:', error);
+    return NextResponse.json(
+      { error: 'Batch failed to start', details: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PolicyStore } from '@/lib/policy-store';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { RequestSchema } from '@/lib/request-schema';
+import { policyErrorResponse } from '../errors';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/** Returns the policy with all its versions, or one with `?version=N`. */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const policy = await PolicyStore.getInstance().get(params.id);
+    const version = request.nextUrl.searchParams.get('version');
+    if (version === null) {
+      return NextResponse.json(policy);
+    }
+
+    const match = policy.versions.find(v => v.version === Number(version));
+    return match
+      ? NextResponse.json(match)
+      : NextResponse.json({ error: 'Policy not found', details: `Policy ${params.id} has no version ${version}` }, { status: 404 });
+  } catch (error) {
+    return policyErrorResponse(error);
+  }
+}
+
+/**
+ * Publishes a new version. Existing versions are immutable. Body:
+ * `{ name, description?, policy, effectiveFrom?, effectiveUntil? }`.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminRequest(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const input = RequestSchema.parsePolicyVersionInput(await request.json());
+    const version = await PolicyStore.getInstance().addVersion(params.id, input);
+    return NextResponse.json(version, { status: 201 });
+  } catch (error) {
+    return policyErrorResponse(error);
+  }
+}
+
+/** Archives the policy; its versions stay readable for audit. */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  if (!isAdminRequest(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await PolicyStore.getInstance().archive(params.id));
+  } catch (error) {
+    return policyErrorResponse(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import {
+  InvalidPolicyError,
+  NoEffectivePolicyError,
+  PolicyConflictError,
+  PolicyNotFoundError,
+} from '@/lib/policy-store';
+import { RequestValidationError } from '@/lib/request-schema';
+
+export function policyErrorResponse(error: any): NextResponse {
+  if (error instanceof SyntaxError) {
+    return NextResponse.json({ error: 'Invalid JSON', details: error.message }, { status: 400 });
+  }
+
+  if (error instanceof RequestValidationError) {
+    return NextResponse.json(
+      { error: 'Invalid policy', details: error.message, fields: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof InvalidPolicyError) {
+    return NextResponse.json({ error: 'Invalid policy', details: error.message }, { status: 400 });
+  }
+
+  if (error instanceof PolicyNotFoundError) {
+    return NextResponse.json({ error: 'Policy not found', details: error.message }, { status: 404 });
+  }
+
+  if (error instanceof PolicyConflictError) {
+    return NextResponse.json({ error: 'Policy conflict', details: error.message }, { status: 409 });
+  }
+
+  if (error instanceof NoEffectivePolicyError) {
+    return NextResponse.json({ error: 'No policy in force', details: error.message }, { status: 422 });
+  }
+
+  console.error('Policy store error:', error);
+  return NextResponse.json({ error: 'Policy store failed', details: error.message }, { status: 500 });
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PolicyStore } from '@/lib/policy-store';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { RequestSchema } from '@/lib/request-schema';
+import { policyErrorResponse } from './errors';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ policies: await PolicyStore.getInstance().list() });
+  } catch (error) {
+    return policyErrorResponse(error);
+  }
+}
+
+/**
+ * Creates a policy with its first version. Body:
+ * `{ id, name, description?, policy, effectiveFrom?, effectiveUntil? }`.
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const input = RequestSchema.parsePolicyVersionInput(body, ['id']);
+    if (typeof body.id !== 'string') {
+      return NextResponse.json({ error: 'Policy id is required' }, { status: 400 });
+    }
+
+    const version = await PolicyStore.getInstance().create(body.id, input);
+    return NextResponse.json(version, { status: 201 });
+  } catch (error) {
+    return policyErrorResponse(error);
+  }
+}
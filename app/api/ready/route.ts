@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { OCRWorkerPool } from '@/lib/ocr-worker-pool';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const pool = OCRWorkerPool.getInstance();
+
+  if (pool.getHealth().status === 'idle') {
+    pool.warmUp().catch(error => console.error('OCR warm-up failed:', error));
+  }
+
+  const health = pool.getHealth();
+
+  return NextResponse.json(
+    { ready: pool.isReady(), ocr: health },
+    { status: pool.isReady() ? 200 : 503 }
+  );
+}
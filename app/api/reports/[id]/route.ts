@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ReportLog } from '@/lib/report-log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * The audit record of an issued report, for `?hash=` set to the content hash
+ * printed on it. A copy whose hash is not on record is not genuine, and the
+ * record, which names the holder, is only shown to someone holding the report.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const hash = request.nextUrl.searchParams.get('hash') || '';
+  const record = await ReportLog.getInstance().findIssued(params.id, hash);
+  if (!record) {
+    return NextResponse.json(
+      { error: 'Report not found', details: `No report ${params.id} with that content hash has been issued` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(record);
+}
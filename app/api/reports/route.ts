@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Verifier } from '@/lib/verifier';
+import { ManualCorrections } from '@/lib/manual-corrections';
+import { ImagePreprocessor } from '@/lib/image-preprocessor';
+import { PDFError } from '@/lib/pdf-reader';
+import { ReportGenerator } from '@/lib/report-generator';
+import { ReportLog } from '@/lib/report-log';
+import { RequestSchema, RequestValidationError } from '@/lib/request-schema';
+import { ResultToken } from '@/lib/result-token';
+import { UnsupportedMediaTypeError, UploadTooLargeError, UploadValidator } from '@/lib/upload-validator';
+import {
+  DEFAULT_POLICY_ID,
+  NoEffectivePolicyError,
+  PolicyNotFoundError,
+  PolicyStore,
+} from '@/lib/policy-store';
+
+export const runtime = 'nodejs';
+
+/**
+ * Renders a verification report as HTML or PDF for the case file. Body:
+ * `{ resultToken, corrections?, applicantData, policyId?, policyVersion?,
+ * thumbnail?, format? }`. The document data comes from the server-signed
+ * token and the checks and decision are re-run, as for /api/validate; the
+ * thumbnail must be one of the files the token was issued for. Applicant
+ * details are the application being checked, so they are shown as given.
+ * Every report is recorded in the audit log under its id and hash.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    UploadValidator.checkContentLength(request.headers.get('content-length'));
+
+    const { reading, corrections, applicant, policyId, policyVersion, thumbnail, format } =
+      RequestSchema.parseReportRequest(await request.json());
+
+    const policyRecord = await PolicyStore.getInstance().resolve(policyId || DEFAULT_POLICY_ID, policyVersion);
+    const result = Verifier.evaluate(ManualCorrections.apply(reading.extractedData, corrections), applicant, policyRecord);
+
+    let thumbnailUrl: string | undefined;
+    if (thumbnail) {
+      const image = typeof thumbnail === 'string' ? ImagePreprocessor.decodeDataUrl(thumbnail) : thumbnail;
+      if (!reading.documents.includes(ResultToken.digest(image))) {
+        throw new RequestValidationError([
+          { path: 'thumbnail', message: 'Must be one of the files the result was read from' },
+        ]);
+      }
+      await UploadValidator.validate(image, 'Thumbnail');
+      thumbnailUrl = await ReportGenerator.thumbnail(image);
+    }
+
+    const report = ReportGenerator.build(result, applicant, thumbnailUrl);
+    await ReportLog.getInstance().append({
+      id: report.id,
+      generatedAt: report.generatedAt,
+      contentHash: report.contentHash,
+      format,
+      outcome: result.decision.outcome,
+      riskScore: result.decision.riskScore,
+      documentNumber: result.extractedData.documentNumber.value,
+      holder: [result.extractedData.givenNames.value, result.extractedData.surname.value].filter(Boolean).join(' '),
+      policy: result.policy,
+    });
+
+    const headers = {
+      'X-Report-Id': report.id,
+      'X-Report-Hash': report.contentHash,
+    };
+
+    if (format === 'pdf') {
+      return new NextResponse(await ReportGenerator.toPDF(report.html), {
+        headers: {
+          ...headers,
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${report.id}.pdf"`,
+        },
+      });
+    }
+
+    return new NextResponse(report.html, {
+      headers: { ...headers, 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  } catch (error: any) {
+    if (error instanceof RequestValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.message, fields: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof UploadTooLargeError) {
+      return NextResponse.json(
+        { error: 'Upload too large', details: error.message },
+        { status: 413 }
+      );
+    }
+
+    if (error instanceof UnsupportedMediaTypeError) {
+      return NextResponse.json(
+        { error: 'Unsupported media type', details: error.message },
+        { status: 415 }
+      );
+    }
+
+    if (error instanceof PDFError) {
+      return NextResponse.json(
+        { error: 'Unreadable PDF', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PolicyNotFoundError) {
+      return NextResponse.json(
+        { error: 'Unknown policy', details: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof NoEffectivePolicyError) {
+      return NextResponse.json(
+        { error: 'No policy in force', details: error.message },
+        { status: 422 }
+      );
+    }
+
+    console.error('Report error:', error);
+    return NextResponse.json(
+      { error: 'Report failed', details: error.message },
+      { status: 500 }
+    );
+  }
+}
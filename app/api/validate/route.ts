@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Verifier } from '@/lib/verifier';
+import { ManualCorrections } from '@/lib/manual-corrections';
+import { RequestSchema, RequestValidationError } from '@/lib/request-schema';
+import { ResultToken } from '@/lib/result-token';
+import {
+  DEFAULT_POLICY_ID,
+  NoEffectivePolicyError,
+  PolicyNotFoundError,
+  PolicyStore,
+} from '@/lib/policy-store';
+
+export const runtime = 'nodejs';
+
+/**
+ * Re-runs the checks and decision on previously extracted data without OCR,
+ * after a reviewer has corrected misread fields. Body:
+ * `{ resultToken, corrections?, applicantData, policyId?, policyVersion? }`.
+ * The data comes from the token, so only the corrections are the client's;
+ * the response carries a new token for the corrected data.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { reading, corrections, applicant, policyId, policyVersion } = RequestSchema.parseValidateRequest(
+      await request.json()
+    );
+
+    const policyRecord = await PolicyStore.getInstance().resolve(policyId || DEFAULT_POLICY_ID, policyVersion);
+    const corrected = ManualCorrections.apply(reading.extractedData, corrections);
+
+    return NextResponse.json({
+      ...Verifier.evaluate(corrected, applicant, policyRecord),
+      resultToken: ResultToken.reissue(reading, corrected),
+    });
+  } catch (error: any) {
+    if (error instanceof RequestValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.message, fields: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PolicyNotFoundError) {
+      return NextResponse.json(
+        { error: 'Unknown policy', details: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof NoEffectivePolicyError) {
+      return NextResponse.json(
+        { error: 'No policy in force', details: error.message },
+        { status: 422 }
+      );
+    }
+
+    console.error('Validation error:', error);
+    return NextResponse.json(
+      { error: 'Validation failed', details: error.message },
+      { status: 500 }
+    );
+  }
+}
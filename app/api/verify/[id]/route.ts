@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { VerificationJobQueue } from '@/lib/verification-jobs';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/** Status of an asynchronous verification, with its result once completed. */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const job = VerificationJobQueue.getInstance().get(params.id);
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Job not found', details: `No verification job ${params.id}; finished jobs expire after JOB_RETENTION_MS` },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json(job);
+}
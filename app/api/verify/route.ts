@@ -1,80 +1,186 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { OCRProcessor } from '@/lib/ocr-processor';
-import { DocumentValidator } from '@/lib/document-validator';
-import { ApplicantData, EligibilityPolicy, VerificationResult } from '@/lib/types';
-import { defaultEligibilityPolicy } from '@/lib/default-policy';
+import { OCRPoolBusyError, OCRWorkerPool } from '@/lib/ocr-worker-pool';
+import { Verifier } from '@/lib/verifier';
+import { ApplicantData, DocumentImage } from '@/lib/types';
+import { RequestSchema, RequestValidationError } from '@/lib/request-schema';
+import {
+  DEFAULT_POLICY_ID,
+  NoEffectivePolicyError,
+  PolicyNotFoundError,
+  PolicyStore,
+} from '@/lib/policy-store';
+import { DOCUMENT_SIDES } from '@/lib/document-merger';
+import { PDFError } from '@/lib/pdf-reader';
+import { ImagePreprocessor } from '@/lib/image-preprocessor';
+import { JobQueueFullError, VerificationJobQueue } from '@/lib/verification-jobs';
+import { CallbackUrlError } from '@/lib/webhook-sender';
+import { ResultToken } from '@/lib/result-token';
+import {
+  UnsupportedMediaTypeError,
+  UploadTooLargeError,
+  UploadValidator,
+  loadUploadConfig,
+} from '@/lib/upload-validator';
 
 export const runtime = 'nodejs';
 export const maxDuration = 60;
 
+const APPLICANT_FIELDS: (keyof ApplicantData)[] = [
+  'name',
+  'dateOfBirth',
+  'passportNumber',
+  'nationality',
+  'intendedVisaType',
+  'intendedStayDays',
+  'supportingDocuments',
+];
+
+interface SubmissionBody {
+  imageData?: string | Buffer;
+  images?: DocumentImage[];
+  applicantData?: unknown;
+  policyId?: string;
+  policyVersion?: string;
+  eligibilityPolicy?: string;
+  async?: string;
+  callbackUrl?: string;
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { imageData, applicantData, eligibilityPolicy } = body;
+    const uploadConfig = loadUploadConfig();
+    UploadValidator.checkContentLength(request.headers.get('content-length'), uploadConfig);
+
+    const contentType = request.headers.get('content-type') || '';
+    const body = contentType.startsWith('multipart/form-data')
+      ? await readMultipartBody(request)
+      : await request.json();
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { imageData, images, applicant, policyId, policyVersion, async, callbackUrl } =
+      RequestSchema.parseVerifyRequest(body);
+
+    const jobs = VerificationJobQueue.getInstance();
+    if (callbackUrl && !jobs.callbacksEnabled) {
+      throw new RequestValidationError([
+        { path: 'callbackUrl', message: 'Callbacks are disabled until WEBHOOK_SECRET is set on the server' },
+      ]);
+    }
+    if (callbackUrl) {
+      await jobs.checkCallbackUrl(callbackUrl);
+    }
+
+    const policyRecord = await PolicyStore.getInstance().resolve(policyId || DEFAULT_POLICY_ID, policyVersion);
+
+    const uploads: DocumentImage[] | null = images
+      ? images.map(image => ({ side: image.side, imageData: toBuffer(image.imageData) }))
+      : null;
+    const upload = uploads ? null : toBuffer(imageData!);
+
+    if (uploads) {
+      for (const [i, image] of uploads.entries()) {
+        await UploadValidator.validate(image.imageData as Buffer, `Image ${i + 1} (${image.side})`, uploadConfig);
+      }
+    } else {
+      await UploadValidator.validate(upload!, 'Image', uploadConfig);
+    }
+
+    const verify = async () => {
+      const extractedData = await OCRWorkerPool.getInstance().run(worker =>
+        uploads
+          ? new OCRProcessor(worker).processDocuments(uploads)
+          : new OCRProcessor(worker).processDocument(upload!)
+      );
+      const files = uploads ? uploads.map(image => image.imageData as Buffer) : [upload!];
+      return {
+        ...Verifier.evaluate(extractedData, applicant, policyRecord),
+        resultToken: ResultToken.issue(extractedData, files),
+      };
+    };
 
-    if (!imageData) {
+    if (async) {
+      const job = jobs.submit(verify, callbackUrl);
+      const statusUrl = `/api/verify/${job.id}`;
       return NextResponse.json(
-        { error: 'Image data is required' },
-        { status: 400 }
+        { jobId: job.id, status: job.status, statusUrl },
+        { status: 202, headers: { Location: statusUrl } }
       );
     }
 
-    if (!applicantData) {
+    return NextResponse.json(await verify());
+  } catch (error: any) {
+    if (error instanceof OCRPoolBusyError) {
       return NextResponse.json(
-        { error: 'Applicant data is required' },
-        { status: 400 }
+        { error: 'OCR service busy', details: error.message },
+        { status: 503, headers: { 'Retry-After': '5' } }
       );
     }
 
-    const applicant: ApplicantData = {
-      name: applicantData.name || '',
-      dateOfBirth: applicantData.dateOfBirth || '',
-      passportNumber: applicantData.passportNumber || '',
-      nationality: applicantData.nationality || '',
-      intendedVisaType: applicantData.intendedVisaType || 'tourist',
-    };
-
-    const policy: EligibilityPolicy = eligibilityPolicy || defaultEligibilityPolicy;
-
-    const processor = new OCRProcessor();
-    await processor.initialize();
+    if (error instanceof JobQueueFullError) {
+      return NextResponse.json(
+        { error: 'Job queue full', details: error.message },
+        { status: 503, headers: { 'Retry-After': '30' } }
+      );
+    }
 
-    const extractedData = await processor.processDocument(imageData);
+    if (error instanceof RequestValidationError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.message, fields: error.errors },
+        { status: 400 }
+      );
+    }
 
-    await processor.terminate();
+    if (error instanceof CallbackUrlError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.message, fields: [{ path: 'callbackUrl', message: error.message }] },
+        { status: 400 }
+      );
+    }
 
-    const validationChecks = DocumentValidator.validateDocument(extractedData);
-    const eligibilityChecks = DocumentValidator.checkEligibility(extractedData, applicant, policy);
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON', details: error.message },
+        { status: 400 }
+      );
+    }
 
-    const allChecksPassed = [...validationChecks, ...eligibilityChecks].every(check => check.passed);
+    if (error instanceof UploadTooLargeError) {
+      return NextResponse.json(
+        { error: 'Upload too large', details: error.message },
+        { status: 413 }
+      );
+    }
 
-    const overallConfidence = calculateOverallConfidence(extractedData);
+    if (error instanceof UnsupportedMediaTypeError) {
+      return NextResponse.json(
+        { error: 'Unsupported media type', details: error.message },
+        { status: 415 }
+      );
+    }
 
-    const recommendedActions = generateRecommendedActions(
-      validationChecks,
-      eligibilityChecks,
-      overallConfidence
-    );
+    if (error instanceof PolicyNotFoundError) {
+      return NextResponse.json(
+        { error: 'Unknown policy', details: error.message },
+        { status: 404 }
+      );
+    }
 
-    const summary = generateSummary(
-      extractedData,
-      validationChecks,
-      eligibilityChecks,
-      overallConfidence,
-      allChecksPassed
-    );
+    if (error instanceof NoEffectivePolicyError) {
+      return NextResponse.json(
+        { error: 'No policy in force', details: error.message },
+        { status: 422 }
+      );
+    }
 
-    const result: VerificationResult = {
-      overallConfidence,
-      extractedData,
-      validationChecks,
-      eligibilityChecks,
-      recommendedActions,
-      summary,
-    };
+    if (error instanceof PDFError) {
+      return NextResponse.json(
+        { error: 'Unreadable PDF', details: error.message },
+        { status: 400 }
+      );
+    }
 
-    return NextResponse.json(result);
-  } catch (error: any) {
     console.error('Verification error:', error);
     return NextResponse.json(
       { error: 'Verification failed', details: error.message },
@@ -83,84 +189,60 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function calculateOverallConfidence(extractedData: any): number {
-  const fields = Object.values(extractedData) as Array<{ confidence: number }>;
-  const confidences = fields
-    .filter(field => field && typeof field.confidence === 'number')
-    .map(field => field.confidence);
-
-  if (confidences.length === 0) return 0;
-
-  const sum = confidences.reduce((acc, val) => acc + val, 0);
-  return Math.round(sum / confidences.length);
+function toBuffer(imageData: string | Buffer): Buffer {
+  return typeof imageData === 'string' ? ImagePreprocessor.decodeDataUrl(imageData) : imageData;
 }
 
-function generateRecommendedActions(
-  validationChecks: any[],
-  eligibilityChecks: any[],
-  overallConfidence: number
-): string[] {
-  const actions: string[] = [];
-
-  const failedValidations = validationChecks.filter(check => !check.passed);
-  const failedEligibility = eligibilityChecks.filter(check => !check.passed);
-
-  if (failedValidations.length > 0) {
-    actions.push(`Review failed validation checks: ${failedValidations.map(c => c.check).join(', ')}`);
-  }
-
-  if (failedEligibility.length > 0) {
-    actions.push(`Address eligibility issues: ${failedEligibility.map(c => c.check).join(', ')}`);
+/**
+ * Reads a multipart upload into the same shape as a JSON body. The document
+ * is either one `image` file part or one part per side (`front`, `back`,
+ * `dataPage`, `visaPage`). Applicant details are sent as individual fields
+ * or as an `applicantData` JSON field, and the policy as `policyId` and an
+ * optional `policyVersion`. `async` and `callbackUrl` are plain fields too.
+ */
+async function readMultipartBody(request: NextRequest): Promise<SubmissionBody | NextResponse> {
+  const form = await request.formData();
+  const readPart = async (part: FormDataEntryValue): Promise<string | Buffer> =>
+    typeof part === 'string' ? part : Buffer.from(await part.arrayBuffer());
+
+  const body: SubmissionBody = {};
+
+  const image = form.get('image');
+  if (image) {
+    body.imageData = await readPart(image);
   }
 
-  if (overallConfidence < 70) {
-    actions.push('Request manual verification due to low confidence in extracted data');
-  }
-
-  if (overallConfidence < 85 && failedValidations.length === 0 && failedEligibility.length === 0) {
-    actions.push('Consider requesting clearer document images for higher confidence');
-  }
-
-  if (failedValidations.length === 0 && failedEligibility.length === 0 && overallConfidence >= 85) {
-    actions.push('Proceed with visa application - all checks passed');
-  }
-
-  if (actions.length === 0) {
-    actions.push('Review application manually before proceeding');
-  }
-
-  return actions;
-}
-
-function generateSummary(
-  extractedData: any,
-  validationChecks: any[],
-  eligibilityChecks: any[],
-  overallConfidence: number,
-  allChecksPassed: boolean
-): string {
-  const docType = extractedData.documentType.value;
-  const docNum = extractedData.documentNumber.value;
-  const holderName = `${extractedData.givenNames.value} ${extractedData.surname.value}`.trim();
-
-  const failedValidations = validationChecks.filter(check => !check.passed);
-  const failedEligibility = eligibilityChecks.filter(check => !check.passed);
-
-  if (allChecksPassed && overallConfidence >= 85) {
-    return `Document verification successful. ${docType} document ${docNum} for ${holderName} passed all validation and eligibility checks with ${overallConfidence}% confidence. Application is ready to proceed.`;
+  const images: DocumentImage[] = [];
+  for (const side of DOCUMENT_SIDES) {
+    for (const part of form.getAll(side)) {
+      images.push({ side, imageData: await readPart(part) });
+    }
   }
-
-  if (failedValidations.length > 0) {
-    return `Document verification flagged issues. ${docType} document ${docNum} for ${holderName} failed ${failedValidations.length} validation check(s): ${failedValidations.map(c => c.check).join(', ')}. Manual review required.`;
+  if (images.length > 0) {
+    body.images = images;
   }
 
-  if (failedEligibility.length > 0) {
-    return `Eligibility check failed. ${docType} document ${docNum} for ${holderName} does not meet eligibility requirements for visa application. Failed ${failedEligibility.length} check(s): ${failedEligibility.map(c => c.check).join(', ')}.`;
-  }
+  try {
+    const applicantJson = form.get('applicantData');
+    const applicantFields = APPLICANT_FIELDS.filter(key => typeof form.get(key) === 'string');
+    if (typeof applicantJson === 'string') {
+      body.applicantData = JSON.parse(applicantJson);
+    } else if (applicantFields.length > 0) {
+      body.applicantData = Object.fromEntries(applicantFields.map(key => [key, form.get(key)]));
+    }
 
-  if (overallConfidence < 70) {
-    return `Low confidence verification. ${docType} document ${docNum} for ${holderName} extracted with only ${overallConfidence}% confidence. Request clearer images or manual verification.`;
+    for (const key of ['policyId', 'policyVersion', 'eligibilityPolicy', 'async', 'callbackUrl'] as const) {
+      const value = form.get(key);
+      if (typeof value === 'string') {
+        body[key] = value;
+      }
+    }
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: 'Invalid form field', details: error.message },
+      { status: 400 }
+    );
   }
 
-  return `Document verification completed with ${overallConfidence}% confidence. ${docType} document ${docNum} for ${holderName}. Review recommended actions before proceeding.`;
+  return body;
 }
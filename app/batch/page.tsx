@@ -0,0 +1,266 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DecisionOutcome } from '@/lib/types';
+import type { Batch } from '@/lib/batch-verifier';
+import type { PolicySummary } from '@/lib/policy-store';
+
+const POLL_INTERVAL_MS = 2000;
+
+export default function BatchPage() {
+  const [manifest, setManifest] = useState<File | null>(null);
+  const [documents, setDocuments] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [batch, setBatch] = useState<Batch | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const [policies, setPolicies] = useState<PolicySummary[]>([]);
+  const [policyId, setPolicyId] = useState('default');
+
+  useEffect(() => {
+    fetch('/api/policies')
+      .then(response => (response.ok ? response.json() : { policies: [] }))
+      .then(data => setPolicies(data.policies.filter((policy: PolicySummary) => policy.effectiveVersion !== null)))
+      .catch(() => setPolicies([]));
+  }, []);
+
+  // Poll until every row has been processed.
+  useEffect(() => {
+    if (!batch || batch.status === 'completed') return;
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/batch/${batch.id}`);
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Could not read batch progress'));
+        }
+        setBatch(await response.json());
+      } catch (err: any) {
+        setError(err.message);
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [batch]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!manifest || !documents) {
+      setError('Please choose a manifest and a documents archive');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    setBatch(null);
+
+    try {
+      const body = new FormData();
+      body.append('manifest', manifest);
+      body.append('documents', documents);
+      body.append('policyId', policyId);
+
+      const response = await fetch('/api/batch', { method: 'POST', body });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Batch failed to start'));
+      }
+
+      const { statusUrl } = await response.json();
+      const status = await fetch(statusUrl);
+      if (!status.ok) {
+        throw new Error(await readError(status, 'Could not read batch progress'));
+      }
+      setBatch(await status.json());
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const readError = async (response: Response, fallback: string) => {
+    const errorData = await response.json();
+    const fieldErrors = (errorData.fields || []).map((field: { path: string; message: string }) => `${field.path}: ${field.message}`);
+    return [errorData.error || fallback, errorData.details, ...fieldErrors].filter(Boolean).join('. ');
+  };
+
+  const decisionStyles: { [key in DecisionOutcome]: { label: string; className: string } } = {
+    approve: { label: 'Approve', className: 'bg-green-100 text-green-800' },
+    manual_review: { label: 'Manual Review', className: 'bg-yellow-100 text-yellow-800' },
+    reject: { label: 'Reject', className: 'bg-red-100 text-red-800' },
+  };
+
+  return (
+    <div className="min-h-screen py-8 px-4">
+      <div className="max-w-6xl mx-auto">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Batch Verification
+          </h1>
+          <p className="text-gray-600">
+            Verify a list of applicants against a zip of their document images
+          </p>
+          <a href="/" className="text-sm text-blue-600 hover:underline">
+            Verify a single document
+          </a>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <h2 className="text-2xl font-semibold mb-4">Upload</h2>
+
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Manifest (CSV or JSON Lines)
+              </label>
+              <input
+                type="file"
+                accept=".csv,.jsonl,.json,text/csv,application/jsonl"
+                onChange={e => setManifest(e.target.files?.[0] || null)}
+                className="w-full text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Documents (zip)
+              </label>
+              <input
+                type="file"
+                accept=".zip,application/zip"
+                onChange={e => setDocuments(e.target.files?.[0] || null)}
+                className="w-full text-sm"
+              />
+            </div>
+
+            {policies.length > 1 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Eligibility Policy
+                </label>
+                <select
+                  value={policyId}
+                  onChange={e => setPolicyId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {policies.map(policy => (
+                    <option key={policy.id} value={policy.id}>
+                      {policy.name} (v{policy.effectiveVersion})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="md:col-span-3 w-full bg-blue-600 text-white py-3 px-4 rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed font-semibold transition-colors"
+            >
+              {submitting ? 'Uploading...' : 'Start Batch'}
+            </button>
+          </form>
+
+          <p className="mt-4 text-sm text-gray-600">
+            Each row needs <code>name</code>, <code>dateOfBirth</code>, <code>passportNumber</code> and{' '}
+            <code>nationality</code>, and names its document with an <code>image</code> column or one column per side
+            (<code>front</code>, <code>back</code>, <code>dataPage</code>, <code>visaPage</code>). An <code>id</code>{' '}
+            column, if present, labels the results.
+          </p>
+
+          {error && (
+            <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-red-800 text-sm">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {batch && (
+          <div className="mt-8 bg-white rounded-lg shadow-lg p-6 space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <h2 className="text-2xl font-semibold">
+                Results {batch.status === 'running' && <span className="text-base text-gray-500">(processing…)</span>}
+              </h2>
+              <div className="flex gap-4 text-sm">
+                <a href={`/api/batch/${batch.id}?format=csv`} className="text-blue-600 hover:underline">
+                  Download CSV
+                </a>
+                <a href={`/api/batch/${batch.id}?format=json`} className="text-blue-600 hover:underline">
+                  Download JSON
+                </a>
+              </div>
+            </div>
+
+            <div className="bg-blue-50 p-4 rounded-md flex flex-wrap gap-x-6 gap-y-2 text-sm">
+              <span>
+                <span className="font-medium">Processed: </span>
+                {batch.summary.processed} / {batch.summary.total}
+              </span>
+              <span className="text-green-800">
+                <span className="font-medium">Approved: </span>
+                {batch.summary.approved}
+              </span>
+              <span className="text-yellow-800">
+                <span className="font-medium">Manual review: </span>
+                {batch.summary.manualReview}
+              </span>
+              <span className="text-red-800">
+                <span className="font-medium">Rejected: </span>
+                {batch.summary.rejected}
+              </span>
+              <span className="text-gray-700">
+                <span className="font-medium">Failed: </span>
+                {batch.summary.failed}
+              </span>
+              <span className="text-gray-500">
+                Policy {batch.policy.id} v{batch.policy.version}
+              </span>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-left">
+                <thead className="border-b text-gray-600">
+                  <tr>
+                    <th className="py-2 pr-4">Line</th>
+                    <th className="py-2 pr-4">Applicant</th>
+                    <th className="py-2 pr-4">Passport</th>
+                    <th className="py-2 pr-4">Decision</th>
+                    <th className="py-2 pr-4">Risk</th>
+                    <th className="py-2 pr-4">Confidence</th>
+                    <th className="py-2">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {batch.rows.map(row => (
+                    <tr key={row.line} className="border-b align-top">
+                      <td className="py-2 pr-4">{row.line}</td>
+                      <td className="py-2 pr-4">
+                        <div className="font-medium">{row.name || '—'}</div>
+                        <div className="text-xs text-gray-500">{row.applicantId}</div>
+                      </td>
+                      <td className="py-2 pr-4 font-mono">{row.passportNumber || '—'}</td>
+                      <td className="py-2 pr-4">
+                        {row.outcome ? (
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${decisionStyles[row.outcome].className}`}>
+                            {decisionStyles[row.outcome].label}
+                          </span>
+                        ) : (
+                          <span className={row.status === 'failed' ? 'text-red-600' : 'text-gray-500'}>
+                            {row.status === 'failed' ? 'Failed' : row.status === 'running' ? 'Processing' : 'Waiting'}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">{row.riskScore ?? ''}</td>
+                      <td className="py-2 pr-4">{row.overallConfidence !== undefined ? `${row.overallConfidence}%` : ''}</td>
+                      <td className="py-2 text-gray-700">
+                        {row.error || (row.reasons && row.reasons.length > 0 ? row.reasons.join(', ') : row.summary)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
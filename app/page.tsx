@@ -1,14 +1,32 @@
 'use client';
 
-import { useState } from 'react';
-import { VerificationResult } from '@/lib/types';
+import { useEffect, useState } from 'react';
+import {
+  CheckStatus,
+  DecisionOutcome,
+  DocumentSide,
+  ExtractedField,
+  FieldSource,
+  VerificationResult,
+} from '@/lib/types';
+import { CountryRegistry } from '@/lib/country-registry';
+import { DOCUMENT_SIDES, SIDE_LABELS } from '@/lib/document-merger';
+import type { PolicySummary } from '@/lib/policy-store';
+import { CORRECTABLE_FIELDS, CorrectableField } from '@/lib/manual-corrections';
+
+interface ImageUpload {
+  side: DocumentSide;
+  preview: string;
+}
 
 export default function Home() {
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [imagePreview, setImagePreview] = useState<string>('');
+  const [images, setImages] = useState<ImageUpload[]>([{ side: 'front', preview: '' }]);
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<VerificationResult | null>(null);
   const [error, setError] = useState<string>('');
+  const [editing, setEditing] = useState<{ field: CorrectableField; value: string } | null>(null);
+  const [rechecking, setRechecking] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
   const [formData, setFormData] = useState({
     name: '',
@@ -16,20 +34,45 @@ export default function Home() {
     passportNumber: '',
     nationality: '',
     intendedVisaType: 'tourist',
+    intendedStayDays: '',
+    supportingDocuments: '',
   });
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const [policies, setPolicies] = useState<PolicySummary[]>([]);
+  const [policyId, setPolicyId] = useState('default');
+
+  useEffect(() => {
+    fetch('/api/policies')
+      .then(response => (response.ok ? response.json() : { policies: [] }))
+      .then(data => setPolicies(data.policies.filter((policy: PolicySummary) => policy.effectiveVersion !== null)))
+      .catch(() => setPolicies([]));
+  }, []);
+
+  const updateImage = (index: number, update: Partial<ImageUpload>) => {
+    setImages(current => current.map((image, i) => (i === index ? { ...image, ...update } : image)));
+  };
+
+  const handleImageChange = (index: number, e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      setImageFile(file);
       const reader = new FileReader();
       reader.onloadend = () => {
-        setImagePreview(reader.result as string);
+        updateImage(index, { preview: reader.result as string });
       };
       reader.readAsDataURL(file);
     }
   };
 
+  const addImage = () => {
+    const used = images.map(image => image.side);
+    const side = DOCUMENT_SIDES.find(candidate => !used.includes(candidate)) || 'front';
+    setImages([...images, { side, preview: '' }]);
+  };
+
+  const removeImage = (index: number) => {
+    setImages(images.filter((_, i) => i !== index));
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setFormData({
       ...formData,
@@ -44,7 +87,8 @@ export default function Home() {
     setResult(null);
 
     try {
-      if (!imagePreview) {
+      const uploaded = images.filter(image => image.preview);
+      if (uploaded.length === 0) {
         throw new Error('Please upload a document image');
       }
 
@@ -54,14 +98,14 @@ export default function Home() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          imageData: imagePreview,
+          images: uploaded.map(image => ({ side: image.side, imageData: image.preview })),
           applicantData: formData,
+          policyId,
         }),
       });
 
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Verification failed');
+        throw new Error(await readError(response, 'Verification failed'));
       }
 
       const data = await response.json();
@@ -73,14 +117,122 @@ export default function Home() {
     }
   };
 
+  /**
+   * Re-checks the current result with one field corrected, against the
+   * policy version the result was produced with.
+   */
+  const saveCorrection = async () => {
+    if (!result || !editing) return;
+    setRechecking(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/validate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          resultToken: result.resultToken,
+          corrections: { [editing.field]: editing.value },
+          applicantData: formData,
+          policyId: result.policy.id,
+          policyVersion: result.policy.version,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Re-validation failed'));
+      }
+
+      setResult(await response.json());
+      setEditing(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setRechecking(false);
+    }
+  };
+
+  /**
+   * Downloads a report of the current result, re-checked on the server,
+   * with the first uploaded image as its thumbnail.
+   */
+  const downloadReport = async (format: 'html' | 'pdf') => {
+    if (!result) return;
+    setExporting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          resultToken: result.resultToken,
+          applicantData: formData,
+          policyId: result.policy.id,
+          policyVersion: result.policy.version,
+          thumbnail: images.find(image => image.preview)?.preview,
+          format,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Report failed'));
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${response.headers.get('X-Report-Id') || 'verification-report'}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const readError = async (response: Response, fallback: string) => {
+    const errorData = await response.json();
+    const fieldErrors = (errorData.fields || []).map((field: { path: string; message: string }) => `${field.path}: ${field.message}`);
+    return [errorData.error || fallback, ...fieldErrors].join('. ');
+  };
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 85) return 'text-green-600';
     if (confidence >= 70) return 'text-yellow-600';
     return 'text-red-600';
   };
 
-  const getCheckColor = (passed: boolean) => {
-    return passed ? 'text-green-600' : 'text-red-600';
+  const getCheckColor = (status: CheckStatus) => {
+    if (status === 'passed') return 'text-green-600';
+    if (status === 'unverified') return 'text-yellow-600';
+    return 'text-red-600';
+  };
+
+  const getCheckIcon = (status: CheckStatus) => {
+    if (status === 'passed') return '✓';
+    if (status === 'unverified') return '?';
+    return '✗';
+  };
+
+  const countryFields = ['nationality', 'issuingCountry'];
+
+  const decisionStyles: { [key in DecisionOutcome]: { label: string; className: string } } = {
+    approve: { label: 'Approve', className: 'bg-green-100 text-green-800' },
+    manual_review: { label: 'Manual Review', className: 'bg-yellow-100 text-yellow-800' },
+    reject: { label: 'Reject', className: 'bg-red-100 text-red-800' },
+  };
+
+  const sourceLabels: { [key in FieldSource]: string } = {
+    mrz: 'MRZ',
+    viz: 'Visual zone',
+    barcode: 'Barcode',
+    manual: 'Manual entry',
   };
 
   return (
@@ -93,6 +245,9 @@ export default function Home() {
           <p className="text-gray-600">
             Upload government-issued travel documents for instant verification and visa eligibility check
           </p>
+          <a href="/batch" className="text-sm text-blue-600 hover:underline">
+            Verify a batch of applicants
+          </a>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -102,23 +257,62 @@ export default function Home() {
             <form onSubmit={handleSubmit} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Document Image
+                  Document Images
                 </label>
-                <input
-                  type="file"
-                  accept="image/*"
-                  onChange={handleImageChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                  required
-                />
-                {imagePreview && (
-                  <div className="mt-4">
-                    <img
-                      src={imagePreview}
-                      alt="Document preview"
-                      className="w-full h-48 object-contain border border-gray-200 rounded"
-                    />
-                  </div>
+                <div className="space-y-3">
+                  {images.map((image, idx) => (
+                    <div key={idx} className="border border-gray-200 rounded-md p-3">
+                      <div className="flex gap-2">
+                        <select
+                          value={image.side}
+                          onChange={e => updateImage(idx, { side: e.target.value as DocumentSide })}
+                          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          {DOCUMENT_SIDES.map(side => (
+                            <option key={side} value={side}>{SIDE_LABELS[side]}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="file"
+                          accept="image/*,application/pdf"
+                          onChange={e => handleImageChange(idx, e)}
+                          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          required={idx === 0}
+                        />
+                        {images.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => removeImage(idx)}
+                            className="px-3 text-gray-500 hover:text-red-600"
+                            aria-label={`Remove ${SIDE_LABELS[image.side].toLowerCase()} image`}
+                          >
+                            ✗
+                          </button>
+                        )}
+                      </div>
+                      {image.preview.startsWith('data:application/pdf') && (
+                        <p className="mt-3 text-sm text-gray-600">
+                          PDF document: every page is read and the page with the MRZ is found automatically
+                        </p>
+                      )}
+                      {image.preview && !image.preview.startsWith('data:application/pdf') && (
+                        <img
+                          src={image.preview}
+                          alt={`${SIDE_LABELS[image.side]} preview`}
+                          className="mt-3 w-full h-48 object-contain border border-gray-200 rounded"
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {images.length < DOCUMENT_SIDES.length && (
+                  <button
+                    type="button"
+                    onClick={addImage}
+                    className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+                  >
+                    + Add another image (e.g. the back of an ID card)
+                  </button>
                 )}
               </div>
 
@@ -172,7 +366,7 @@ export default function Home() {
 
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Nationality (3-letter code)
+                      Nationality (code or country name)
                     </label>
                     <input
                       type="text"
@@ -180,7 +374,6 @@ export default function Home() {
                       value={formData.nationality}
                       onChange={handleInputChange}
                       placeholder="USA"
-                      maxLength={3}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                       required
                     />
@@ -203,6 +396,54 @@ export default function Home() {
                       <option value="work">Work</option>
                     </select>
                   </div>
+
+                  {policies.length > 1 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Eligibility Policy
+                      </label>
+                      <select
+                        value={policyId}
+                        onChange={e => setPolicyId(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        {policies.map(policy => (
+                          <option key={policy.id} value={policy.id}>
+                            {policy.name} (v{policy.effectiveVersion})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Intended Stay (days)
+                    </label>
+                    <input
+                      type="number"
+                      name="intendedStayDays"
+                      value={formData.intendedStayDays}
+                      onChange={handleInputChange}
+                      placeholder="90"
+                      min={0}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Supporting Documents Supplied
+                    </label>
+                    <input
+                      type="text"
+                      name="supportingDocuments"
+                      value={formData.supportingDocuments}
+                      onChange={handleInputChange}
+                      placeholder="Proof of accommodation, Guardian consent"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
                 </div>
               </div>
 
@@ -256,39 +497,140 @@ export default function Home() {
                 <div className="bg-blue-50 p-4 rounded-md">
                   <h3 className="font-semibold text-lg mb-2">Summary</h3>
                   <p className="text-gray-700">{result.summary}</p>
-                  <div className="mt-3">
-                    <span className="text-sm font-medium">Overall Confidence: </span>
-                    <span className={`text-lg font-bold ${getConfidenceColor(result.overallConfidence)}`}>
-                      {result.overallConfidence}%
+                  <div className="mt-3 flex flex-wrap items-center gap-x-6 gap-y-2">
+                    <span className={`px-3 py-1 rounded-full text-sm font-semibold ${decisionStyles[result.decision.outcome].className}`}>
+                      {decisionStyles[result.decision.outcome].label}
+                    </span>
+                    <span>
+                      <span className="text-sm font-medium">Risk Score: </span>
+                      <span className="text-lg font-bold">{result.decision.riskScore}</span>
+                    </span>
+                    <span>
+                      <span className="text-sm font-medium">Overall Confidence: </span>
+                      <span className={`text-lg font-bold ${getConfidenceColor(result.overallConfidence)}`}>
+                        {result.overallConfidence}%
+                      </span>
                     </span>
                   </div>
+                  {result.decision.reasons.length > 0 && (
+                    <ul className="mt-3 space-y-1 text-sm text-gray-700">
+                      {result.decision.reasons.map(reason => (
+                        <li key={reason.code}>
+                          <span className="font-mono text-xs text-gray-500">{reason.code}</span> +{reason.points}:{' '}
+                          {reason.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
 
                 <div>
                   <h3 className="font-semibold text-lg mb-3">Extracted Data</h3>
                   <div className="grid grid-cols-2 gap-2 text-sm">
-                    {Object.entries(result.extractedData).map(([key, field]: [string, any]) => {
-                      if (key.startsWith('mrz')) return null;
+                    {Object.entries(result.extractedData).map(([key, field]: [string, ExtractedField]) => {
+                      if (key.startsWith('mrz') || ['visualZone', 'pageCount', 'sides', 'sideConflicts'].includes(key)) return null;
+                      const correctable = CORRECTABLE_FIELDS.includes(key as CorrectableField);
                       return (
                         <div key={key} className="bg-gray-50 p-2 rounded">
-                          <div className="text-gray-600 text-xs uppercase">{key.replace(/([A-Z])/g, ' $1').trim()}</div>
-                          <div className="font-medium">{field.value || 'N/A'}</div>
-                          <div className={`text-xs ${getConfidenceColor(field.confidence)}`}>
-                            {field.confidence}% confidence
+                          <div className="flex justify-between text-gray-600 text-xs uppercase">
+                            <span>{key.replace(/([A-Z])/g, ' $1').trim()}</span>
+                            {correctable && editing?.field !== key && (
+                              <button
+                                type="button"
+                                onClick={() => setEditing({ field: key as CorrectableField, value: field.value })}
+                                disabled={rechecking}
+                                className="normal-case text-blue-600 hover:underline disabled:text-gray-400"
+                              >
+                                Edit
+                              </button>
+                            )}
                           </div>
+                          {editing?.field === key ? (
+                            <form
+                              onSubmit={e => {
+                                e.preventDefault();
+                                saveCorrection();
+                              }}
+                              className="flex gap-1 mt-1"
+                            >
+                              <input
+                                type="text"
+                                value={editing.value}
+                                onChange={e => setEditing({ ...editing, value: e.target.value })}
+                                autoFocus
+                                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded text-sm"
+                              />
+                              <button
+                                type="submit"
+                                disabled={rechecking}
+                                className="px-2 py-1 bg-blue-600 text-white rounded text-xs disabled:bg-gray-400"
+                              >
+                                {rechecking ? '...' : 'Save'}
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => setEditing(null)}
+                                className="px-2 py-1 text-gray-600 text-xs"
+                              >
+                                Cancel
+                              </button>
+                            </form>
+                          ) : field.found ? (
+                            <>
+                              <div className="font-medium">
+                                {field.value}
+                                {countryFields.includes(key) && CountryRegistry.getName(field.value) && (
+                                  <span className="text-gray-500 font-normal"> · {CountryRegistry.getName(field.value)}</span>
+                                )}
+                              </div>
+                              <div className={`text-xs ${getConfidenceColor(field.confidence)}`}>
+                                {field.confidence}% confidence
+                                {field.source && <span className="text-gray-500"> · {sourceLabels[field.source]}</span>}
+                                {field.location && (result.extractedData.pageCount || 1) > 1 && (
+                                  <span className="text-gray-500">
+                                    {' '}
+                                    ({field.location.side
+                                      ? SIDE_LABELS[field.location.side].toLowerCase()
+                                      : `page ${field.location.page}`})
+                                  </span>
+                                )}
+                              </div>
+                            </>
+                          ) : (
+                            <div className="font-medium text-gray-400 italic">Not found</div>
+                          )}
+                          {field.original && editing?.field !== key && (
+                            <div className="text-xs text-gray-500">
+                              OCR read {field.original.found ? `"${field.original.value}" (${field.original.confidence}%)` : 'nothing'}
+                            </div>
+                          )}
                         </div>
                       );
                     })}
                   </div>
                 </div>
 
+                {result.extractedData.mrzCorrections && (
+                  <div>
+                    <h3 className="font-semibold text-lg mb-3">MRZ Corrections</h3>
+                    <ul className="space-y-1">
+                      {result.extractedData.mrzCorrections.map((correction, idx) => (
+                        <li key={idx} className="text-sm text-gray-700 bg-yellow-50 p-2 rounded">
+                          {correction.field} (line {correction.line}, position {correction.position}): read
+                          &quot;{correction.from}&quot;, corrected to &quot;{correction.to}&quot;
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 <div>
                   <h3 className="font-semibold text-lg mb-3">Validation Checks</h3>
                   <div className="space-y-2">
                     {result.validationChecks.map((check, idx) => (
                       <div key={idx} className="flex items-start gap-2 p-2 bg-gray-50 rounded">
-                        <span className={`font-bold ${getCheckColor(check.passed)}`}>
-                          {check.passed ? '✓' : '✗'}
+                        <span className={`font-bold ${getCheckColor(check.status)}`}>
+                          {getCheckIcon(check.status)}
                         </span>
                         <div>
                           <div className="font-medium text-sm">{check.check}</div>
@@ -300,15 +642,22 @@ export default function Home() {
                 </div>
 
                 <div>
-                  <h3 className="font-semibold text-lg mb-3">Eligibility Checks</h3>
+                  <h3 className="font-semibold text-lg mb-1">Eligibility Checks</h3>
+                  <p className="text-xs text-gray-500 mb-3">
+                    Policy {result.policy.name} ({result.policy.id} v{result.policy.version}, in force from{' '}
+                    {result.policy.effectiveFrom})
+                  </p>
                   <div className="space-y-2">
                     {result.eligibilityChecks.map((check, idx) => (
                       <div key={idx} className="flex items-start gap-2 p-2 bg-gray-50 rounded">
-                        <span className={`font-bold ${getCheckColor(check.passed)}`}>
-                          {check.passed ? '✓' : '✗'}
+                        <span className={`font-bold ${check.warning ? 'text-yellow-600' : getCheckColor(check.status)}`}>
+                          {check.warning ? '⚠' : getCheckIcon(check.status)}
                         </span>
                         <div>
-                          <div className="font-medium text-sm">{check.check}</div>
+                          <div className="font-medium text-sm">
+                            {check.check}
+                            {check.ruleId && <span className="text-gray-400 font-normal text-xs"> · {check.ruleId}</span>}
+                          </div>
                           <div className="text-xs text-gray-600">{check.message}</div>
                         </div>
                       </div>
@@ -324,6 +673,21 @@ export default function Home() {
                     ))}
                   </ul>
                 </div>
+
+                <div className="flex flex-wrap items-center gap-3 border-t pt-4">
+                  <span className="text-sm font-medium">Case file report:</span>
+                  {(['pdf', 'html'] as const).map(format => (
+                    <button
+                      key={format}
+                      type="button"
+                      onClick={() => downloadReport(format)}
+                      disabled={exporting || rechecking}
+                      className="px-3 py-1 text-sm border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 disabled:border-gray-300 disabled:text-gray-400"
+                    >
+                      {exporting ? 'Preparing...' : `Download ${format.toUpperCase()}`}
+                    </button>
+                  ))}
+                </div>
               </div>
             )}
           </div>
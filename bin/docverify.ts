@@ -0,0 +1,342 @@
+#!/usr/bin/env -S npx tsx
+/**
+ * Runs the verification pipeline on local files without the Next.js server.
+ *
+ *   docverify check passport.jpg --applicant applicant.json [--policy policy.json] [--json]
+ *   docverify mrz [--json] < mrz.txt
+ *
+ * `check` exits 0 when the decision is approve, 1 for manual review and 2
+ * for reject. `mrz` exits 0 when the MRZ is valid and 1 when it is not. Both
+ * exit 3 on bad arguments or unreadable input.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import {
+  ApplicantData,
+  CheckStatus,
+  DecisionOutcome,
+  DocumentImage,
+  DocumentSide,
+  ExtractedData,
+  VerificationResult,
+} from '../lib/types';
+import { DOCUMENT_SIDES } from '../lib/document-merger';
+import { FIELD_LABELS } from '../lib/document-validator';
+import { CORRECTABLE_FIELDS } from '../lib/manual-corrections';
+import { MRZValidationResult, MRZValidator } from '../lib/mrz-validator';
+import { OCRProcessor } from '../lib/ocr-processor';
+import { OCRWorkerPool } from '../lib/ocr-worker-pool';
+import { DEFAULT_POLICY_ID, PolicyStore, PolicyVersion } from '../lib/policy-store';
+import { RequestSchema, RequestValidationError } from '../lib/request-schema';
+import { UploadValidator } from '../lib/upload-validator';
+import { Verifier } from '../lib/verifier';
+
+const USAGE = `Usage:
+  docverify check <image> --applicant <file> [options]
+  docverify check front=<image> back=<image> --applicant <file> [options]
+  docverify mrz [--json] < mrz.txt
+
+check options:
+  -a, --applicant <file>      Applicant details as JSON, as sent in applicantData
+  -p, --policy <file>         Policy JSON: a bare policy, or { name, policy, ... } as sent to /api/policies
+      --policy-id <id>        Use a policy from the policy store instead (default: ${DEFAULT_POLICY_ID})
+      --policy-version <n>    Pin a stored policy version
+      --json                  Print the full verification result as JSON
+
+Images are JPEG, PNG, WebP, TIFF, GIF or PDF. Label each image with its side
+(${DOCUMENT_SIDES.join(', ')}) to submit several.
+
+Exit status: 0 approve (or valid MRZ), 1 manual review (or invalid MRZ),
+2 reject, 3 error.`;
+
+const EXIT_CODES: { [outcome in DecisionOutcome]: number } = {
+  approve: 0,
+  manual_review: 1,
+  reject: 2,
+};
+
+const EXIT_ERROR = 3;
+
+const OUTCOME_LABELS: { [outcome in DecisionOutcome]: string } = {
+  approve: 'APPROVE',
+  manual_review: 'MANUAL REVIEW',
+  reject: 'REJECT',
+};
+
+const STATUS_ICONS: { [status in CheckStatus]: string } = {
+  passed: '✓',
+  failed: '✗',
+  unverified: '?',
+};
+
+/** Labels for MRZ fields and check digits that are not extracted fields. */
+const MRZ_LABELS: { [field: string]: string } = {
+  ...FIELD_LABELS,
+  personalNumber: 'Personal Number',
+  optionalData: 'Optional Data',
+  optionalData2: 'Optional Data 2',
+  composite: 'Composite',
+};
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...args] = argv;
+  switch (command) {
+    case 'check':
+      return check(args);
+    case 'mrz':
+      return mrz(args);
+    case 'help':
+    case '--help':
+    case '-h':
+      console.log(USAGE);
+      return 0;
+    default:
+      throw new UsageError(command ? `Unknown command "${command}"` : 'No command given');
+  }
+}
+
+async function check(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      applicant: { type: 'string', short: 'a' },
+      policy: { type: 'string', short: 'p' },
+      'policy-id': { type: 'string' },
+      'policy-version': { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.applicant) {
+    throw new UsageError('--applicant is required');
+  }
+  if (values.policy && (values['policy-id'] || values['policy-version'])) {
+    throw new UsageError('Use either --policy or --policy-id, not both');
+  }
+
+  const applicant = RequestSchema.parseApplicant(await readJSON(values.applicant));
+  const policyRecord = values.policy
+    ? await loadPolicyFile(values.policy)
+    : await loadStoredPolicy(values['policy-id'], values['policy-version']);
+
+  const extractedData = await readDocument(await readImages(positionals));
+  const result = Verifier.evaluate(extractedData, applicant, policyRecord);
+
+  console.log(values.json ? JSON.stringify(result, null, 2) : formatReport(result, applicant));
+  return EXIT_CODES[result.decision.outcome];
+}
+
+async function mrz(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: { json: { type: 'boolean', default: false } },
+  });
+
+  if (process.stdin.isTTY) {
+    console.error('Paste the MRZ lines, then press Ctrl-D.');
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+
+  // Pasted text often picks up spaces or lower case; neither occurs in an MRZ.
+  const lines = Buffer.concat(chunks)
+    .toString('utf8')
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, '').toUpperCase())
+    .filter(Boolean);
+  if (lines.length === 0) {
+    throw new Error('No MRZ text on standard input');
+  }
+
+  const result = MRZValidator.validateMRZ(lines);
+  console.log(values.json ? JSON.stringify(result, null, 2) : formatMRZReport(result));
+  return result.valid ? 0 : 1;
+}
+
+/** Positional arguments are one image path, or `side=path` pairs. */
+async function readImages(positionals: string[]): Promise<DocumentImage[] | Buffer> {
+  if (positionals.length === 0) {
+    throw new UsageError('No image given');
+  }
+
+  const labelled = positionals.map(arg => {
+    const match = /^([A-Za-z]+)=(.+)$/.exec(arg);
+    return match && DOCUMENT_SIDES.includes(match[1] as DocumentSide)
+      ? { side: match[1] as DocumentSide, file: match[2] }
+      : { file: arg };
+  });
+
+  if (labelled.length === 1 && !labelled[0].side) {
+    const input = await readFile(labelled[0].file);
+    await UploadValidator.validate(input, labelled[0].file);
+    return input;
+  }
+
+  const images: DocumentImage[] = [];
+  for (const { side, file } of labelled) {
+    if (!side) {
+      throw new UsageError(`Label "${file}" with its side, e.g. front=${file}, when giving several images`);
+    }
+    if (images.some(image => image.side === side)) {
+      throw new UsageError(`Side "${side}" given twice`);
+    }
+    const input = await readFile(file);
+    await UploadValidator.validate(input, file);
+    images.push({ side, imageData: input });
+  }
+  return images;
+}
+
+/** OCR with a single worker of its own; the CLI has no pool to share. */
+async function readDocument(input: DocumentImage[] | Buffer): Promise<ExtractedData> {
+  const worker = await OCRWorkerPool.createOfflineWorker();
+  try {
+    const processor = new OCRProcessor(worker);
+    return Buffer.isBuffer(input) ? await processor.processDocument(input) : await processor.processDocuments(input);
+  } finally {
+    await worker.terminate();
+  }
+}
+
+/**
+ * A policy file holds either a bare eligibility policy or a version input
+ * as sent to /api/policies. It is checked like a stored policy and used as
+ * an unstored version 1 named after the file.
+ */
+async function loadPolicyFile(file: string): Promise<PolicyVersion> {
+  const body = await readJSON(file);
+  const id = path.basename(file, path.extname(file));
+  const input =
+    typeof body === 'object' && body !== null && 'policy' in body
+      ? RequestSchema.parsePolicyVersionInput(body, ['id'])
+      : { name: id, policy: RequestSchema.parsePolicy(body) };
+  return PolicyStore.buildVersion(id, 1, input);
+}
+
+async function loadStoredPolicy(id: string = DEFAULT_POLICY_ID, version?: string): Promise<PolicyVersion> {
+  const number = version === undefined ? undefined : Number(version);
+  if (number !== undefined && (!Number.isInteger(number) || number < 1)) {
+    throw new UsageError('--policy-version must be a whole number of at least 1');
+  }
+  return PolicyStore.getInstance().resolve(id, number);
+}
+
+async function readFile(file: string): Promise<Buffer> {
+  try {
+    return await fs.readFile(file);
+  } catch (error: any) {
+    throw new Error(error.code === 'ENOENT' ? `${file} does not exist` : `Cannot read ${file}: ${error.message}`);
+  }
+}
+
+async function readJSON(file: string): Promise<unknown> {
+  const text = (await readFile(file)).toString('utf8');
+  try {
+    return JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`${file} is not valid JSON: ${error.message}`);
+  }
+}
+
+function formatReport(result: VerificationResult, applicant: ApplicantData): string {
+  const { decision, extractedData } = result;
+  const lines = [
+    `Decision:    ${OUTCOME_LABELS[decision.outcome]} (risk score ${decision.riskScore})`,
+    `Confidence:  ${result.overallConfidence}%`,
+    `Applicant:   ${applicant.name}, ${applicant.passportNumber}, ${applicant.nationality}`,
+    `Policy:      ${result.policy.name} (${result.policy.id} v${result.policy.version})`,
+    '',
+    result.summary,
+  ];
+
+  if (decision.reasons.length > 0) {
+    lines.push('', 'Reasons:');
+    for (const reason of decision.reasons) {
+      lines.push(`  ${String(reason.points).padStart(3)}  ${reason.code}: ${reason.message}`);
+    }
+  }
+
+  lines.push('', 'Extracted fields:');
+  for (const field of CORRECTABLE_FIELDS) {
+    const reading = extractedData[field];
+    if (!reading) continue;
+    const value = reading.found ? reading.value : '(not found)';
+    const source = reading.source ? `  ${reading.source.toUpperCase()}` : '';
+    lines.push(`  ${FIELD_LABELS[field].padEnd(16)} ${value.padEnd(28)} ${String(reading.confidence).padStart(3)}%${source}`);
+  }
+
+  for (const [title, checks] of [
+    ['Validation checks:', result.validationChecks],
+    ['Eligibility checks:', result.eligibilityChecks],
+  ] as const) {
+    lines.push('', title);
+    for (const check of checks) {
+      lines.push(`  ${STATUS_ICONS[check.status]} ${check.check}: ${check.message}`);
+    }
+  }
+
+  if (result.recommendedActions.length > 0) {
+    lines.push('', 'Recommended actions:');
+    for (const action of result.recommendedActions) {
+      lines.push(`  - ${action}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatMRZReport(result: MRZValidationResult): string {
+  const lines = [`MRZ: ${result.valid ? 'VALID' : 'INVALID'}${result.parsedData.format ? ` (${result.parsedData.format})` : ''}`];
+
+  const fields = Object.entries(result.parsedData).filter(([key, value]) => key !== 'format' && value);
+  if (fields.length > 0) {
+    lines.push('', 'Fields:');
+    for (const [key, value] of fields) {
+      lines.push(`  ${(MRZ_LABELS[key] || key).padEnd(16)} ${value}`);
+    }
+  }
+
+  const digits = Object.entries(result.checkDigits);
+  if (digits.length > 0) {
+    lines.push('', 'Check digits:');
+    for (const [field, passed] of digits) {
+      lines.push(`  ${passed ? STATUS_ICONS.passed : STATUS_ICONS.failed} ${MRZ_LABELS[field] || field}`);
+    }
+  }
+
+  if (result.errors.length > 0) {
+    lines.push('', 'Errors:');
+    for (const error of result.errors) {
+      lines.push(`  - ${error}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    if (error instanceof UsageError || String(error.code).startsWith('ERR_PARSE_ARGS')) {
+      console.error(`docverify: ${error.message}\n\n${USAGE}`);
+    } else if (error instanceof RequestValidationError) {
+      console.error(['docverify: invalid input', ...error.errors.map(e => `  ${e.path || '(root)'}: ${e.message}`)].join('\n'));
+    } else {
+      console.error(`docverify: ${error.message}`);
+    }
+    process.exitCode = EXIT_ERROR;
+  }
+);
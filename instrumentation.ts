@@ -0,0 +1,8 @@
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { OCRWorkerPool } = await import('./lib/ocr-worker-pool');
+    OCRWorkerPool.getInstance()
+      .warmUp()
+      .catch(error => console.error('OCR warm-up failed:', error));
+  }
+}
@@ -0,0 +1,161 @@
+import { PartialDates } from './partial-date';
+
+/**
+ * Fields decoded from the PDF417 barcode on a North American driving
+ * licence or ID card, following the AAMVA DL/ID Card Design Standard.
+ * Dates use the same YYYY-MM-DD form as the other extractors.
+ */
+export interface AAMVAData {
+  issuerId: string;
+  version: number;
+  documentType: 'D' | 'I';
+  jurisdiction?: string;
+  issuingCountry: string;
+  documentNumber?: string;
+  surname?: string;
+  givenNames?: string;
+  dateOfBirth?: string;
+  sex?: string;
+  issueDate?: string;
+  expiryDate?: string;
+  elements: { [id: string]: string };
+}
+
+const HEADER = /(?:ANSI |AAMVA)(\d{6})(\d{2})/;
+const SEGMENT_SEPARATOR = /[\n\r\x1e]+/;
+const ELEMENT = /^([DZ][A-Z]{2})(.*)$/;
+
+const CANADIAN_JURISDICTIONS = ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'];
+
+const SEX_CODES: { [code: string]: string } = { '1': 'M', '2': 'F', '9': 'X', M: 'M', F: 'F', X: 'X' };
+
+const ABSENT_NAMES = ['NONE', 'UNAVL', 'UNAVAILABLE'];
+
+export class AAMVAParser {
+  /**
+   * Parses AAMVA barcode text into its data elements and the fields they
+   * map to. Returns null when the text does not carry an AAMVA header.
+   */
+  static parse(text: string): AAMVAData | null {
+    const header = text.match(HEADER);
+    if (!header || header.index === undefined) return null;
+
+    const version = parseInt(header[2]);
+    const { subfileTypes, bodyStart } = this.parseDesignators(text, header.index + header[0].length, version);
+    const elements = this.parseElements(text.substring(bodyStart), subfileTypes);
+
+    const jurisdiction = elements.DAJ;
+    const issuingCountry =
+      elements.DCG || (jurisdiction && CANADIAN_JURISDICTIONS.includes(jurisdiction) ? 'CAN' : 'USA');
+    const yearFirst = issuingCountry === 'CAN' || version < 2;
+    const date = (id: string) => (elements[id] ? this.parseDate(elements[id], yearFirst) : undefined);
+    const names = this.parseNames(elements);
+
+    return {
+      issuerId: header[1],
+      version,
+      documentType: subfileTypes.includes('DL') || !subfileTypes.includes('ID') ? 'D' : 'I',
+      jurisdiction,
+      issuingCountry,
+      documentNumber: elements.DAQ?.replace(/[\s-]/g, ''),
+      surname: names.surname,
+      givenNames: names.givenNames,
+      dateOfBirth: date('DBB'),
+      sex: elements.DBC ? SEX_CODES[elements.DBC.toUpperCase()] : undefined,
+      issueDate: date('DBD'),
+      expiryDate: date('DBA'),
+      elements,
+    };
+  }
+
+  /**
+   * Reads the subfile designators that follow the header. Version 1 headers
+   * have no jurisdiction version field. Each designator is a two-letter
+   * subfile type followed by a four-digit offset and length.
+   */
+  private static parseDesignators(
+    text: string,
+    start: number,
+    version: number
+  ): { subfileTypes: string[]; bodyStart: number } {
+    let position = start + (version >= 2 ? 2 : 0);
+    const entries = parseInt(text.substring(position, position + 2));
+    position += 2;
+
+    const subfileTypes: string[] = [];
+    for (let i = 0; i < (entries || 0); i++) {
+      const designator = text.substring(position, position + 10);
+      if (!/^[A-Z]{2}\d{8}$/.test(designator)) break;
+      subfileTypes.push(designator.substring(0, 2));
+      position += 10;
+    }
+
+    return { subfileTypes: subfileTypes.length > 0 ? subfileTypes : ['DL', 'ID'], bodyStart: position };
+  }
+
+  /**
+   * Elements are separated by line feeds; the first element of each subfile
+   * is prefixed by the subfile type. The first occurrence of an element wins.
+   */
+  private static parseElements(body: string, subfileTypes: string[]): { [id: string]: string } {
+    const elements: { [id: string]: string } = {};
+
+    for (let segment of body.split(SEGMENT_SEPARATOR)) {
+      const prefix = subfileTypes.find(type => segment.startsWith(type) && ELEMENT.test(segment.substring(2)));
+      if (prefix) {
+        segment = segment.substring(2);
+      }
+
+      const match = segment.match(ELEMENT);
+      if (match && elements[match[1]] === undefined) {
+        elements[match[1]] = match[2].trim();
+      }
+    }
+
+    return elements;
+  }
+
+  /**
+   * Current versions split the name into DCS, DAC and DAD. Older barcodes
+   * use DCT for all given names or DAA for the full name as
+   * "LAST,FIRST,MIDDLE".
+   */
+  private static parseNames(elements: { [id: string]: string }): { surname?: string; givenNames?: string } {
+    const clean = (value?: string) =>
+      value && !ABSENT_NAMES.includes(value.toUpperCase())
+        ? value.toUpperCase().replace(/[,$]/g, ' ').replace(/\s+/g, ' ').trim()
+        : '';
+
+    if (elements.DCS || elements.DAB) {
+      const given = [clean(elements.DAC || elements.DCT), clean(elements.DAD)].filter(Boolean).join(' ');
+      return {
+        surname: clean(elements.DCS || elements.DAB) || undefined,
+        givenNames: given || undefined,
+      };
+    }
+
+    if (elements.DAA) {
+      const [surname, ...given] = elements.DAA.split(/[,$]/);
+      return { surname: clean(surname) || undefined, givenNames: clean(given.join(' ')) || undefined };
+    }
+
+    return {};
+  }
+
+  /**
+   * US barcodes write dates as MMDDCCYY and Canadian and version 1 barcodes
+   * as CCYYMMDD. The other order is tried when the expected one gives an
+   * impossible date.
+   */
+  private static parseDate(value: string, yearFirst: boolean): string | undefined {
+    if (!/^\d{8}$/.test(value)) return undefined;
+
+    const ymd = () =>
+      PartialDates.create(parseInt(value.substring(0, 4)), parseInt(value.substring(4, 6)), parseInt(value.substring(6, 8)));
+    const mdy = () =>
+      PartialDates.create(parseInt(value.substring(4, 8)), parseInt(value.substring(0, 2)), parseInt(value.substring(2, 4)));
+
+    const date = yearFirst ? ymd() || mdy() : mdy() || ymd();
+    return date ? PartialDates.format(date) : undefined;
+  }
+}
@@ -0,0 +1,17 @@
+import crypto from 'crypto';
+
+/**
+ * Management routes require `Authorization: Bearer <POLICY_ADMIN_TOKEN>`.
+ * Without a configured token they are open in development and closed in
+ * production.
+ */
+export function isAdminRequest(authorization: string | null): boolean {
+  const token = process.env.POLICY_ADMIN_TOKEN;
+  if (!token) {
+    return process.env.NODE_ENV !== 'production';
+  }
+
+  const presented = Buffer.from(authorization?.replace(/^Bearer\s+/i, '') || '');
+  const expected = Buffer.from(token);
+  return presented.length === expected.length && crypto.timingSafeEqual(presented, expected);
+}
@@ -0,0 +1,59 @@
+import sharp from 'sharp';
+import {
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  NotFoundException,
+  ChecksumException,
+  FormatException,
+  PDF417Reader,
+  RGBLuminanceSource,
+} from '@zxing/library';
+
+const DECODE_WIDTH = 2000;
+const ROTATIONS = [0, 90];
+
+export class BarcodeReader {
+  /**
+   * Looks for a PDF417 barcode in an image and returns its text, or null
+   * when there is none. The image is tried upright and rotated a quarter
+   * turn, since licence backs are often photographed sideways; the decoder
+   * itself handles upside-down codes.
+   */
+  static async readPDF417(input: Buffer): Promise<string | null> {
+    const hints = new Map<DecodeHintType, unknown>([[DecodeHintType.TRY_HARDER, true]]);
+    const oriented = await sharp(input)
+      .rotate()
+      .grayscale()
+      .resize({ width: DECODE_WIDTH, withoutEnlargement: true })
+      .toBuffer();
+
+    for (const rotation of ROTATIONS) {
+      const { data, info } = await sharp(oriented)
+        .rotate(rotation)
+        // Drop any alpha channel so the raw output is one byte per pixel, with
+        // transparent areas white rather than black.
+        .flatten({ background: '#ffffff' })
+        .grayscale()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+
+      const source = new RGBLuminanceSource(new Uint8ClampedArray(data), info.width, info.height);
+      const bitmap = new BinaryBitmap(new HybridBinarizer(source));
+
+      try {
+        return new PDF417Reader().decode(bitmap, hints).getText();
+      } catch (error) {
+        if (
+          !(error instanceof NotFoundException) &&
+          !(error instanceof ChecksumException) &&
+          !(error instanceof FormatException)
+        ) {
+          throw error;
+        }
+      }
+    }
+
+    return null;
+  }
+}
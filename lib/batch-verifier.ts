@@ -0,0 +1,414 @@
+import crypto from 'crypto';
+import path from 'path';
+import { unzipSync } from 'fflate';
+import {
+  ApplicantData,
+  DecisionOutcome,
+  DecisionReasonCode,
+  DocumentImage,
+  DocumentSide,
+  PolicyReference,
+  VerificationResult,
+} from './types';
+import { ManifestParser, ManifestRow } from './manifest-parser';
+import { RequestSchema, RequestValidationError } from './request-schema';
+import { DOCUMENT_SIDES } from './document-merger';
+import { OCRProcessor } from './ocr-processor';
+import { OCRPoolBusyError, OCRWorkerPool } from './ocr-worker-pool';
+import { PolicyStore, PolicyVersion } from './policy-store';
+import { UploadTooLargeError, UploadValidator, loadUploadConfig } from './upload-validator';
+import { Verifier } from './verifier';
+
+export type BatchRowStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/** One applicant's line in the batch result table. */
+export interface BatchRow {
+  /** Line of the manifest the applicant was read from. */
+  line: number;
+  applicantId: string;
+  name: string;
+  passportNumber: string;
+  status: BatchRowStatus;
+  outcome?: DecisionOutcome;
+  riskScore?: number;
+  overallConfidence?: number;
+  reasons?: DecisionReasonCode[];
+  summary?: string;
+  error?: string;
+  result?: VerificationResult;
+}
+
+export interface BatchSummary {
+  total: number;
+  processed: number;
+  approved: number;
+  manualReview: number;
+  rejected: number;
+  failed: number;
+}
+
+export interface Batch {
+  id: string;
+  status: 'running' | 'completed';
+  createdAt: string;
+  completedAt?: string;
+  policy: PolicyReference;
+  summary: BatchSummary;
+  rows: BatchRow[];
+}
+
+/** A manifest or archive that cannot be processed at all. */
+export class BatchInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchInputError';
+  }
+}
+
+export interface BatchConfig {
+  maxRows: number;
+  maxArchiveBytes: number;
+  /** Limit on the total uncompressed size of the archive's files. */
+  maxExtractedBytes: number;
+  /** The archive plus room for the manifest and form fields. */
+  maxRequestBytes: number;
+  concurrency: number;
+  retentionMs: number;
+  busyRetryMs: number;
+  /** Retries a row gets while the OCR pool stays full before it fails. */
+  maxBusyRetries: number;
+}
+
+export function loadBatchConfig(): BatchConfig {
+  const maxArchiveBytes = Math.max(1, parseInt(process.env.BATCH_MAX_ARCHIVE_BYTES || String(100 * 1024 * 1024)));
+  return {
+    maxRows: Math.max(1, parseInt(process.env.BATCH_MAX_ROWS || '500')),
+    maxArchiveBytes,
+    maxExtractedBytes: Math.max(1, parseInt(process.env.BATCH_MAX_EXTRACTED_BYTES || String(300 * 1024 * 1024))),
+    maxRequestBytes: maxArchiveBytes + 16 * 1024 * 1024,
+    concurrency: Math.max(1, parseInt(process.env.BATCH_CONCURRENCY || '2')),
+    retentionMs: Math.max(0, parseInt(process.env.BATCH_RETENTION_MS || String(24 * 60 * 60 * 1000))),
+    busyRetryMs: 5000,
+    maxBusyRetries: Math.max(0, parseInt(process.env.BATCH_MAX_BUSY_RETRIES || '60')),
+  };
+}
+
+/** Manifest columns that reference documents rather than applicant data. */
+const DOCUMENT_COLUMNS = ['image', ...DOCUMENT_SIDES];
+
+const CSV_COLUMNS: (keyof BatchRow)[] = [
+  'line',
+  'applicantId',
+  'name',
+  'passportNumber',
+  'status',
+  'outcome',
+  'riskScore',
+  'overallConfidence',
+  'reasons',
+  'summary',
+  'error',
+];
+
+interface PreparedRow {
+  row: BatchRow;
+  applicant?: ApplicantData;
+  /** A single document image, or labelled sides; released once verified. */
+  image?: Buffer;
+  images?: DocumentImage[];
+  busyRetries?: number;
+}
+
+interface BatchRecord extends Batch {
+  queue: PreparedRow[];
+  running: number;
+}
+
+/** Quotes a CSV value, and defuses manifest text a spreadsheet would run as a formula. */
+function csvValue(value: unknown): string {
+  let text = Array.isArray(value) ? value.join(' ') : value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Verifies the applicants of a manifest against documents from a zip
+ * archive. Batches run in the background through the shared OCR worker
+ * pool, a few applicants at a time, and are kept in memory like
+ * verification jobs.
+ */
+export class BatchVerifier {
+  private static instance: BatchVerifier | null = null;
+
+  private readonly batches = new Map<string, BatchRecord>();
+
+  constructor(private readonly config: BatchConfig = loadBatchConfig()) {}
+
+  static getInstance(): BatchVerifier {
+    if (!this.instance) {
+      this.instance = new BatchVerifier();
+    }
+    return this.instance;
+  }
+
+  /**
+   * Reads the manifest and archive and starts the batch. Problems with a
+   * single row, such as invalid applicant data or a missing file, fail that
+   * row only.
+   */
+  submit(manifest: { fileName: string; text: string }, archive: Buffer, policyRecord: PolicyVersion): Batch {
+    this.prune();
+    const manifestRows = ManifestParser.parse(manifest.text, ManifestParser.detectFormat(manifest.fileName, manifest.text));
+    if (manifestRows.length > this.config.maxRows) {
+      throw new BatchInputError(`Manifest has ${manifestRows.length} rows; at most ${this.config.maxRows} are allowed`);
+    }
+
+    const files = this.readArchive(archive);
+    const prepared = manifestRows.map((manifestRow, i) => this.prepare(manifestRow, i, files));
+    const rows = prepared.map(entry => entry.row);
+
+    const batch: BatchRecord = {
+      id: crypto.randomUUID(),
+      status: 'running',
+      createdAt: new Date().toISOString(),
+      policy: PolicyStore.reference(policyRecord),
+      summary: this.summarise(rows),
+      rows,
+      queue: prepared.filter(entry => entry.row.status === 'pending'),
+      running: 0,
+    };
+    this.batches.set(batch.id, batch);
+    this.pump(batch, policyRecord);
+    return this.view(batch, false);
+  }
+
+  /** The batch, with each row's full result only when asked for. */
+  get(id: string, includeResults: boolean = false): Batch | null {
+    this.prune();
+    const batch = this.batches.get(id);
+    return batch ? this.view(batch, includeResults) : null;
+  }
+
+  static toCSV(batch: Batch): string {
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const row of batch.rows) {
+      lines.push(CSV_COLUMNS.map(column => csvValue(row[column])).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Unpacks the archive, refusing files over the upload limit and archives
+   * that expand beyond the extracted-size limit before inflating anything.
+   */
+  private readArchive(archive: Buffer): Map<string, Buffer> {
+    if (archive.length > this.config.maxArchiveBytes) {
+      throw new UploadTooLargeError(`Archive is ${archive.length} bytes; the limit is ${this.config.maxArchiveBytes} bytes`);
+    }
+
+    const maxFileBytes = loadUploadConfig().maxFileBytes;
+    let extracted = 0;
+    let entries: { [name: string]: Uint8Array };
+    try {
+      entries = unzipSync(new Uint8Array(archive.buffer, archive.byteOffset, archive.length), {
+        filter: file => {
+          const name = file.name;
+          if (name.endsWith('/') || name.startsWith('__MACOSX/') || path.posix.basename(name).startsWith('.')) {
+            return false;
+          }
+          if (file.originalSize > maxFileBytes) {
+            throw new UploadTooLargeError(`${name} is ${file.originalSize} bytes; the limit is ${maxFileBytes} bytes`);
+          }
+          extracted += file.originalSize;
+          if (extracted > this.config.maxExtractedBytes) {
+            throw new UploadTooLargeError(`Archive expands beyond ${this.config.maxExtractedBytes} bytes`);
+          }
+          return true;
+        },
+      });
+    } catch (error: any) {
+      if (error instanceof UploadTooLargeError) throw error;
+      throw new BatchInputError(`Documents archive is not a readable zip file: ${error.message}`);
+    }
+
+    const files = new Map<string, Buffer>();
+    const basenames = new Map<string, string[]>();
+    for (const [name, data] of Object.entries(entries)) {
+      files.set(name, Buffer.from(data.buffer, data.byteOffset, data.length));
+      const base = path.posix.basename(name);
+      basenames.set(base, [...(basenames.get(base) || []), name]);
+    }
+
+    // Manifests usually name files without the folder they were zipped in.
+    for (const [base, names] of Array.from(basenames.entries())) {
+      if (names.length === 1 && !files.has(base)) {
+        files.set(base, files.get(names[0])!);
+      }
+    }
+    return files;
+  }
+
+  private prepare(manifestRow: ManifestRow, index: number, files: Map<string, Buffer>): PreparedRow {
+    const { id, ...values } = manifestRow.values;
+    const applicantValues: { [key: string]: unknown } = {};
+    const documents: { side: DocumentSide | 'image'; file: string }[] = [];
+    for (const [column, value] of Object.entries(values)) {
+      if (DOCUMENT_COLUMNS.includes(column)) {
+        if (typeof value === 'string' && value.trim() !== '') {
+          documents.push({ side: column as DocumentSide | 'image', file: value.trim() });
+        }
+      } else if (value !== '') {
+        applicantValues[column] = value;
+      }
+    }
+
+    const row: BatchRow = {
+      line: manifestRow.line,
+      applicantId: typeof id === 'string' || typeof id === 'number' ? String(id) : String(index + 1),
+      name: typeof values.name === 'string' ? values.name.trim().toUpperCase() : '',
+      passportNumber: typeof values.passportNumber === 'string' ? values.passportNumber.trim().toUpperCase() : '',
+      status: 'pending',
+    };
+    const fail = (error: string): PreparedRow => ({ row: { ...row, status: 'failed', error } });
+
+    let applicant: ApplicantData;
+    try {
+      applicant = RequestSchema.parseApplicant(applicantValues);
+    } catch (error) {
+      if (error instanceof RequestValidationError) return fail(error.message);
+      throw error;
+    }
+
+    row.name = applicant.name;
+    row.passportNumber = applicant.passportNumber;
+
+    if (documents.length === 0) {
+      return fail(`No document listed; add an image column or one of ${DOCUMENT_SIDES.join(', ')}`);
+    }
+    if (documents.some(document => document.side === 'image') && documents.length > 1) {
+      return fail('List either one image or images per side, not both');
+    }
+
+    const missing = documents.filter(document => !files.has(document.file)).map(document => document.file);
+    if (missing.length > 0) {
+      return fail(`Not found in the documents archive: ${missing.join(', ')}`);
+    }
+
+    if (documents[0].side === 'image') {
+      return { row, applicant, image: files.get(documents[0].file)! };
+    }
+    const images = documents.map(document => ({
+      side: document.side as DocumentSide,
+      imageData: files.get(document.file)!,
+    }));
+    return { row, applicant, images };
+  }
+
+  private pump(batch: BatchRecord, policyRecord: PolicyVersion): void {
+    while (batch.running < this.config.concurrency && batch.queue.length > 0) {
+      const entry = batch.queue.shift()!;
+      batch.running++;
+      this.verify(entry, policyRecord)
+        .then(retry => {
+          if (retry) {
+            setTimeout(() => {
+              batch.queue.unshift(entry);
+              this.pump(batch, policyRecord);
+            }, this.config.busyRetryMs);
+          }
+        })
+        .finally(() => {
+          batch.running--;
+          batch.summary = this.summarise(batch.rows);
+          if (batch.running === 0 && batch.queue.length === 0 && batch.rows.every(row => row.status !== 'pending' && row.status !== 'running')) {
+            batch.status = 'completed';
+            batch.completedAt = new Date().toISOString();
+          }
+          this.pump(batch, policyRecord);
+        });
+    }
+  }
+
+  /** Verifies one row; resolves true when the OCR pool was full and it should be retried. */
+  private async verify(entry: PreparedRow, policyRecord: PolicyVersion): Promise<boolean> {
+    const { row } = entry;
+    row.status = 'running';
+
+    try {
+      const { image, images } = entry;
+      if (images) {
+        for (const side of images) {
+          await UploadValidator.validate(side.imageData as Buffer, `Image for ${row.applicantId} (${side.side})`);
+        }
+      } else {
+        await UploadValidator.validate(image!, `Image for ${row.applicantId}`);
+      }
+
+      const extractedData = await OCRWorkerPool.getInstance().run(worker =>
+        images
+          ? new OCRProcessor(worker).processDocuments(images)
+          : new OCRProcessor(worker).processDocument(image!)
+      );
+      const result = Verifier.evaluate(extractedData, entry.applicant!, policyRecord);
+
+      Object.assign(row, {
+        status: 'completed',
+        outcome: result.decision.outcome,
+        riskScore: result.decision.riskScore,
+        overallConfidence: result.overallConfidence,
+        reasons: result.decision.reasons.map(reason => reason.code),
+        summary: result.summary,
+        result,
+      });
+    } catch (error: any) {
+      const busyRetries = entry.busyRetries || 0;
+      if (error instanceof OCRPoolBusyError && busyRetries < this.config.maxBusyRetries) {
+        entry.busyRetries = busyRetries + 1;
+        row.status = 'pending';
+        return true;
+      }
+      row.status = 'failed';
+      row.error = error.message;
+    }
+
+    entry.image = undefined;
+    entry.images = undefined;
+    return false;
+  }
+
+  private summarise(rows: BatchRow[]): BatchSummary {
+    const count = (test: (row: BatchRow) => boolean) => rows.filter(test).length;
+    return {
+      total: rows.length,
+      processed: count(row => row.status === 'completed' || row.status === 'failed'),
+      approved: count(row => row.outcome === 'approve'),
+      manualReview: count(row => row.outcome === 'manual_review'),
+      rejected: count(row => row.outcome === 'reject'),
+      failed: count(row => row.status === 'failed'),
+    };
+  }
+
+  /** Forgets completed batches older than the retention period. */
+  private prune(): void {
+    const cutoff = Date.now() - this.config.retentionMs;
+    for (const [id, batch] of Array.from(this.batches.entries())) {
+      if (batch.completedAt && Date.parse(batch.completedAt) < cutoff) {
+        this.batches.delete(id);
+      }
+    }
+  }
+
+  private view(batch: BatchRecord, includeResults: boolean): Batch {
+    const { queue, running, rows, ...view } = batch;
+    return {
+      ...view,
+      summary: { ...batch.summary },
+      rows: rows.map(row => {
+        const { result, ...summary } = row;
+        return includeResults && result ? { ...summary, result } : { ...summary };
+      }),
+    };
+  }
+}
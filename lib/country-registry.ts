@@ -0,0 +1,428 @@
+/**
+ * ISO 3166-1 alpha-3 country codes.
+ */
+const ISO_COUNTRIES: { [code: string]: string } = {
+  ABW: 'Aruba',
+  AFG: 'Afghanistan',
+  AGO: 'Angola',
+  AIA: 'Anguilla',
+  ALA: 'Åland Islands',
+  ALB: 'Albania',
+  AND: 'Andorra',
+  ARE: 'United Arab Emirates',
+  ARG: 'Argentina',
+  ARM: 'Armenia',
+  ASM: 'American Samoa',
+  ATA: 'Antarctica',
+  ATF: 'French Southern Territories',
+  ATG: 'Antigua and Barbuda',
+  AUS: 'Australia',
+  AUT: 'Austria',
+  AZE: 'Azerbaijan',
+  BDI: 'Burundi',
+  BEL: 'Belgium',
+  BEN: 'Benin',
+  BES: 'Bonaire, Sint Eustatius and Saba',
+  BFA: 'Burkina Faso',
+  BGD: 'Bangladesh',
+  BGR: 'Bulgaria',
+  BHR: 'Bahrain',
+  BHS: 'Bahamas',
+  BIH: 'Bosnia and Herzegovina',
+  BLM: 'Saint Barthélemy',
+  BLR: 'Belarus',
+  BLZ: 'Belize',
+  BMU: 'Bermuda',
+  BOL: 'Bolivia',
+  BRA: 'Brazil',
+  BRB: 'Barbados',
+  BRN: 'Brunei Darussalam',
+  BTN: 'Bhutan',
+  BVT: 'Bouvet Island',
+  BWA: 'Botswana',
+  CAF: 'Central African Republic',
+  CAN: 'Canada',
+  CCK: 'Cocos (Keeling) Islands',
+  CHE: 'Switzerland',
+  CHL: 'Chile',
+  CHN: 'China',
+  CIV: "Côte d'Ivoire",
+  CMR: 'Cameroon',
+  COD: 'Congo, Democratic Republic of the',
+  COG: 'Congo',
+  COK: 'Cook Islands',
+  COL: 'Colombia',
+  COM: 'Comoros',
+  CPV: 'Cabo Verde',
+  CRI: 'Costa Rica',
+  CUB: 'Cuba',
+  CUW: 'Curaçao',
+  CXR: 'Christmas Island',
+  CYM: 'Cayman Islands',
+  CYP: 'Cyprus',
+  CZE: 'Czechia',
+  DEU: 'Germany',
+  DJI: 'Djibouti',
+  DMA: 'Dominica',
+  DNK: 'Denmark',
+  DOM: 'Dominican Republic',
+  DZA: 'Algeria',
+  ECU: 'Ecuador',
+  EGY: 'Egypt',
+  ERI: 'Eritrea',
+  ESH: 'Western Sahara',
+  ESP: 'Spain',
+  EST: 'Estonia',
+  ETH: 'Ethiopia',
+  FIN: 'Finland',
+  FJI: 'Fiji',
+  FLK: 'Falkland Islands (Malvinas)',
+  FRA: 'France',
+  FRO: 'Faroe Islands',
+  FSM: 'Micronesia',
+  GAB: 'Gabon',
+  GBR: 'United Kingdom',
+  GEO: 'Georgia',
+  GGY: 'Guernsey',
+  GHA: 'Ghana',
+  GIB: 'Gibraltar',
+  GIN: 'Guinea',
+  GLP: 'Guadeloupe',
+  GMB: 'Gambia',
+  GNB: 'Guinea-Bissau',
+  GNQ: 'Equatorial Guinea',
+  GRC: 'Greece',
+  GRD: 'Grenada',
+  GRL: 'Greenland',
+  GTM: 'Guatemala',
+  GUF: 'French Guiana',
+  GUM: 'Guam',
+  GUY: 'Guyana',
+  HKG: 'Hong Kong',
+  HMD: 'Heard Island and McDonald Islands',
+  HND: 'Honduras',
+  HRV: 'Croatia',
+  HTI: 'Haiti',
+  HUN: 'Hungary',
+  IDN: 'Indonesia',
+  IMN: 'Isle of Man',
+  IND: 'India',
+  IOT: 'British Indian Ocean Territory',
+  IRL: 'Ireland',
+  IRN: 'Iran',
+  IRQ: 'Iraq',
+  ISL: 'Iceland',
+  ISR: 'Israel',
+  ITA: 'Italy',
+  JAM: 'Jamaica',
+  JEY: 'Jersey',
+  JOR: 'Jordan',
+  JPN: 'Japan',
+  KAZ: 'Kazakhstan',
+  KEN: 'Kenya',
+  KGZ: 'Kyrgyzstan',
+  KHM: 'Cambodia',
+  KIR: 'Kiribati',
+  KNA: 'Saint Kitts and Nevis',
+  KOR: 'Korea, Republic of',
+  KWT: 'Kuwait',
+  LAO: "Lao People's Democratic Republic",
+  LBN: 'Lebanon',
+  LBR: 'Liberia',
+  LBY: 'Libya',
+  LCA: 'Saint Lucia',
+  LIE: 'Liechtenstein',
+  LKA: 'Sri Lanka',
+  LSO: 'Lesotho',
+  LTU: 'Lithuania',
+  LUX: 'Luxembourg',
+  LVA: 'Latvia',
+  MAC: 'Macao',
+  MAF: 'Saint Martin (French part)',
+  MAR: 'Morocco',
+  MCO: 'Monaco',
+  MDA: 'Moldova',
+  MDG: 'Madagascar',
+  MDV: 'Maldives',
+  MEX: 'Mexico',
+  MHL: 'Marshall Islands',
+  MKD: 'North Macedonia',
+  MLI: 'Mali',
+  MLT: 'Malta',
+  MMR: 'Myanmar',
+  MNE: 'Montenegro',
+  MNG: 'Mongolia',
+  MNP: 'Northern Mariana Islands',
+  MOZ: 'Mozambique',
+  MRT: 'Mauritania',
+  MSR: 'Montserrat',
+  MTQ: 'Martinique',
+  MUS: 'Mauritius',
+  MWI: 'Malawi',
+  MYS: 'Malaysia',
+  MYT: 'Mayotte',
+  NAM: 'Namibia',
+  NCL: 'New Caledonia',
+  NER: 'Niger',
+  NFK: 'Norfolk Island',
+  NGA: 'Nigeria',
+  NIC: 'Nicaragua',
+  NIU: 'Niue',
+  NLD: 'Netherlands',
+  NOR: 'Norway',
+  NPL: 'Nepal',
+  NRU: 'Nauru',
+  NZL: 'New Zealand',
+  OMN: 'Oman',
+  PAK: 'Pakistan',
+  PAN: 'Panama',
+  PCN: 'Pitcairn',
+  PER: 'Peru',
+  PHL: 'Philippines',
+  PLW: 'Palau',
+  PNG: 'Papua New Guinea',
+  POL: 'Poland',
+  PRI: 'Puerto Rico',
+  PRK: "Korea, Democratic People's Republic of",
+  PRT: 'Portugal',
+  PRY: 'Paraguay',
+  PSE: 'Palestine, State of',
+  PYF: 'French Polynesia',
+  QAT: 'Qatar',
+  REU: 'Réunion',
+  ROU: 'Romania',
+  RUS: 'Russian Federation',
+  RWA: 'Rwanda',
+  SAU: 'Saudi Arabia',
+  SDN: 'Sudan',
+  SEN: 'Senegal',
+  SGP: 'Singapore',
+  SGS: 'South Georgia and the South Sandwich Islands',
+  SHN: 'Saint Helena, Ascension and Tristan da Cunha',
+  SJM: 'Svalbard and Jan Mayen',
+  SLB: 'Solomon Islands',
+  SLE: 'Sierra Leone',
+  SLV: 'El Salvador',
+  SMR: 'San Marino',
+  SOM: 'Somalia',
+  SPM: 'Saint Pierre and Miquelon',
+  SRB: 'Serbia',
+  SSD: 'South Sudan',
+  STP: 'Sao Tome and Principe',
+  SUR: 'Suriname',
+  SVK: 'Slovakia',
+  SVN: 'Slovenia',
+  SWE: 'Sweden',
+  SWZ: 'Eswatini',
+  SXM: 'Sint Maarten (Dutch part)',
+  SYC: 'Seychelles',
+  SYR: 'Syrian Arab Republic',
+  TCA: 'Turks and Caicos Islands',
+  TCD: 'Chad',
+  TGO: 'Togo',
+  THA: 'Thailand',
+  TJK: 'Tajikistan',
+  TKL: 'Tokelau',
+  TKM: 'Turkmenistan',
+  TLS: 'Timor-Leste',
+  TON: 'Tonga',
+  TTO: 'Trinidad and Tobago',
+  TUN: 'Tunisia',
+  TUR: 'Türkiye',
+  TUV: 'Tuvalu',
+  TWN: 'Taiwan',
+  TZA: 'Tanzania',
+  UGA: 'Uganda',
+  UKR: 'Ukraine',
+  UMI: 'United States Minor Outlying Islands',
+  URY: 'Uruguay',
+  USA: 'United States of America',
+  UZB: 'Uzbekistan',
+  VAT: 'Holy See',
+  VCT: 'Saint Vincent and the Grenadines',
+  VEN: 'Venezuela',
+  VGB: 'Virgin Islands (British)',
+  VIR: 'Virgin Islands (U.S.)',
+  VNM: 'Viet Nam',
+  VUT: 'Vanuatu',
+  WLF: 'Wallis and Futuna',
+  WSM: 'Samoa',
+  YEM: 'Yemen',
+  ZAF: 'South Africa',
+  ZMB: 'Zambia',
+  ZWE: 'Zimbabwe',
+};
+
+/**
+ * Codes ICAO 9303 Part 3 adds for travel documents: Germany's single-letter
+ * code, British nationality variants, stateless persons and refugees,
+ * issuing organisations and the Utopia specimen state.
+ */
+const ICAO_CODES: { [code: string]: string } = {
+  D: 'Germany',
+  GBD: 'British Overseas Territories Citizen',
+  GBN: 'British National (Overseas)',
+  GBO: 'British Overseas Citizen',
+  GBP: 'British Protected Person',
+  GBS: 'British Subject',
+  RKS: 'Kosovo',
+  UNA: 'United Nations specialized agency',
+  UNK: 'Kosovo (UNMIK)',
+  UNO: 'United Nations Organization',
+  EUE: 'European Union',
+  XOM: 'Sovereign Military Order of Malta',
+  XBA: 'African Development Bank',
+  XIM: 'African Export-Import Bank',
+  XCC: 'Caribbean Community',
+  XCO: 'Common Market for Eastern and Southern Africa',
+  XEC: 'Economic Community of West African States',
+  XPO: 'International Criminal Police Organization',
+  XES: 'Organisation of Eastern Caribbean States',
+  XMP: 'Parliamentary Assembly of the Mediterranean',
+  XDC: 'Southern African Development Community',
+  XXA: 'Stateless person',
+  XXB: 'Refugee (1951 Convention)',
+  XXC: 'Refugee (other)',
+  XXX: 'Unspecified nationality',
+  UTO: 'Utopia (specimen)',
+};
+
+/**
+ * ICAO codes that denote the same state as an ISO code, so a document
+ * showing D matches an applicant or policy entry of DEU.
+ */
+const EQUIVALENT_CODES: { [code: string]: string } = {
+  D: 'DEU',
+};
+
+/**
+ * Common English names that differ from the ISO short names, for reading
+ * free-text nationalities such as "United States" or "South Korea".
+ */
+const NAME_ALIASES: { [name: string]: string } = {
+  'united states': 'USA',
+  'america': 'USA',
+  'uk': 'GBR',
+  'great britain': 'GBR',
+  'britain': 'GBR',
+  'russia': 'RUS',
+  'south korea': 'KOR',
+  'north korea': 'PRK',
+  'vietnam': 'VNM',
+  'laos': 'LAO',
+  'syria': 'SYR',
+  'turkey': 'TUR',
+  'ivory coast': 'CIV',
+  'cape verde': 'CPV',
+  'czech republic': 'CZE',
+  'holland': 'NLD',
+  'macedonia': 'MKD',
+  'swaziland': 'SWZ',
+  'palestine': 'PSE',
+  'dr congo': 'COD',
+  'east timor': 'TLS',
+  'burma': 'MMR',
+  'vatican': 'VAT',
+  'brunei': 'BRN',
+  'micronesia': 'FSM',
+};
+
+function normaliseName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\(.*?\)/g, ' ')
+    .replace(/[^a-z ]+/g, ' ')
+    .replace(/^\s*the\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * ISO short names indexed in both their listed and natural order, so
+ * "Korea, Republic of" is found as "Republic of Korea" too.
+ */
+const NAME_INDEX: Map<string, string> = (() => {
+  const index = new Map<string, string>();
+  for (const [code, name] of Object.entries(ISO_COUNTRIES)) {
+    index.set(normaliseName(name), code);
+    const [head, tail] = name.split(/,\s*/);
+    if (tail) {
+      index.set(normaliseName(`${tail} ${head}`), code);
+    }
+  }
+  for (const [alias, code] of Object.entries(NAME_ALIASES)) {
+    index.set(alias, code);
+  }
+  return index;
+})();
+
+const EU = [
+  'AUT', 'BEL', 'BGR', 'HRV', 'CYP', 'CZE', 'DNK', 'EST', 'FIN', 'FRA', 'DEU', 'GRC', 'HUN', 'IRL',
+  'ITA', 'LVA', 'LTU', 'LUX', 'MLT', 'NLD', 'POL', 'PRT', 'ROU', 'SVK', 'SVN', 'ESP', 'SWE',
+];
+
+/**
+ * Named groups of states that eligibility rules can refer to, such as
+ * "EU nationals".
+ */
+export const COUNTRY_GROUPS: { [group: string]: string[] } = {
+  EU,
+  EEA: [...EU, 'ISL', 'LIE', 'NOR'],
+  SCHENGEN: [...EU.filter(code => code !== 'IRL' && code !== 'CYP'), 'ISL', 'LIE', 'NOR', 'CHE'],
+};
+
+export class CountryRegistry {
+  /**
+   * Uppercases a code and strips MRZ filler, so the German code read as
+   * "D<<" from the MRZ normalises to "D".
+   */
+  static normalise(code: string): string {
+    return code.toUpperCase().replace(/[<\s]/g, '');
+  }
+
+  static isValid(code: string): boolean {
+    return this.getName(code) !== null;
+  }
+
+  static getName(code: string): string | null {
+    const normalised = this.normalise(code);
+    return ISO_COUNTRIES[normalised] || ICAO_CODES[normalised] || null;
+  }
+
+  /**
+   * Formats a code with its country name for display, e.g. "DEU (Germany)";
+   * unknown codes are returned unchanged.
+   */
+  static describe(code: string): string {
+    const name = this.getName(code);
+    return name ? `${this.normalise(code)} (${name})` : code;
+  }
+
+  static sameCountry(a: string, b: string): boolean {
+    return this.canonical(a) === this.canonical(b);
+  }
+
+  /**
+   * Reads a nationality given as a code or a country name, returning its
+   * code, or null when it is neither.
+   */
+  static fromName(value: string): string | null {
+    const code = this.normalise(value);
+    if (/^[A-Z]{1,3}$/.test(code) && this.isValid(code)) {
+      return code;
+    }
+    return NAME_INDEX.get(normaliseName(value)) || null;
+  }
+
+  /** True when the code belongs to a named group; false for unknown groups. */
+  static inGroup(code: string, group: string): boolean {
+    return (COUNTRY_GROUPS[group.toUpperCase()] || []).includes(this.canonical(code));
+  }
+
+  private static canonical(code: string): string {
+    const normalised = this.normalise(code);
+    return EQUIVALENT_CODES[normalised] || normalised;
+  }
+}
@@ -7,26 +7,27 @@ export const defaultEligibilityPolicy: EligibilityPolicy = {
   blockedNationalities: ['PRK'],
   requiredDocumentTypes: ['P', 'I'],
   minValidityMonths: 6,
+  minNameMatchGrade: 'strong',
   visaTypeRequirements: {
     tourist: {
       minAge: 18,
       allowedNationalities: [],
-      additionalRequirements: ['Valid passport', 'Proof of accommodation'],
+      additionalRequirements: ['Proof of accommodation'],
     },
     business: {
       minAge: 21,
       allowedNationalities: [],
-      additionalRequirements: ['Valid passport', 'Business invitation letter'],
+      additionalRequirements: ['Business invitation letter'],
     },
     student: {
       minAge: 16,
       allowedNationalities: [],
-      additionalRequirements: ['Valid passport', 'Letter of acceptance from institution'],
+      additionalRequirements: ['Letter of acceptance from institution'],
     },
     work: {
       minAge: 18,
       allowedNationalities: [],
-      additionalRequirements: ['Valid passport', 'Job offer letter', 'Work permit'],
+      additionalRequirements: ['Job offer letter', 'Work permit'],
     },
   },
 };
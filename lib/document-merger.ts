@@ -0,0 +1,197 @@
+import { DocumentSide, ExtractedData, ExtractedField, FieldSource, SideConflict, VisualZoneData } from './types';
+import { CountryRegistry } from './country-registry';
+import { PartialDates } from './partial-date';
+import { COMPARABLE_FIELDS, ComparableField, VIZComparator } from './viz-comparator';
+
+/**
+ * The reading of one image or PDF page. Pages of a PDF have no side unless
+ * they were recognised as a visa page.
+ */
+export interface SideReading {
+  side?: DocumentSide;
+  data: ExtractedData;
+}
+
+/** One image's reading of a field, with the rest of that image's data. */
+interface FieldReading {
+  data: ExtractedData;
+  field: ExtractedField;
+}
+
+export const SIDE_LABELS: { [side in DocumentSide]: string } = {
+  front: 'Front',
+  back: 'Back',
+  dataPage: 'Data page',
+  visaPage: 'Visa page',
+};
+
+export const DOCUMENT_SIDES = Object.keys(SIDE_LABELS) as DocumentSide[];
+
+const MERGED_FIELDS = [
+  'documentType',
+  'documentNumber',
+  'surname',
+  'givenNames',
+  'nationality',
+  'dateOfBirth',
+  'sex',
+  'issuingCountry',
+  'issueDate',
+  'expiryDate',
+] as const;
+
+type MergedField = (typeof MERGED_FIELDS)[number];
+
+/**
+ * A visa page describes the visa, not the passport it is stuck in, so only
+ * the holder's details on it are compared with the other images.
+ */
+const HOLDER_FIELDS: MergedField[] = ['surname', 'givenNames', 'nationality', 'dateOfBirth', 'sex'];
+
+const DATE_FIELDS: MergedField[] = ['dateOfBirth', 'issueDate', 'expiryDate'];
+const COUNTRY_FIELDS: MergedField[] = ['nationality', 'issuingCountry'];
+
+const SOURCE_RANK: { [source in FieldSource]: number } = { mrz: 3, barcode: 2, viz: 1, manual: 0 };
+
+const NOT_FOUND: ExtractedField = { value: '', confidence: 0, found: false };
+
+export class DocumentMerger {
+  /**
+   * Merges the readings of several images or pages of one document, which
+   * are numbered in order from 1. Each field is taken from the most reliable
+   * source on any page (MRZ, then barcode, then printed text, then
+   * confidence), and fields whose readings disagree between pages are listed
+   * as side conflicts.
+   */
+  static merge(readings: SideReading[]): ExtractedData {
+    const tagged = readings.map((reading, i) => ({
+      side: reading.side,
+      page: i + 1,
+      data: this.tag(reading.data, reading.side, i + 1),
+    }));
+
+    const merged = {} as ExtractedData;
+    const sideConflicts: SideConflict[] = [];
+
+    for (const key of MERGED_FIELDS) {
+      const candidates = tagged
+        .filter(reading => reading.side !== 'visaPage' || HOLDER_FIELDS.includes(key))
+        .map(reading => ({ page: reading.page, side: reading.side, data: reading.data, field: reading.data[key] }))
+        .filter(candidate => candidate.field.found);
+
+      const best = candidates.reduce<(typeof candidates)[number] | null>(
+        (current, candidate) => (!current || this.outranks(candidate.field, current.field) ? candidate : current),
+        null
+      );
+      merged[key] = best ? best.field : NOT_FOUND;
+
+      if (best && candidates.some(candidate => !this.agrees(key, best, candidate))) {
+        sideConflicts.push({
+          field: key,
+          readings: candidates.map(({ page, side, field }) => ({ page, side, value: field.value, source: field.source })),
+        });
+      }
+    }
+
+    const mrzReading =
+      tagged.find(reading => reading.data.mrzLine1 && reading.side !== 'visaPage') ||
+      tagged.find(reading => reading.data.mrzLine1);
+    if (mrzReading) {
+      merged.mrzLine1 = mrzReading.data.mrzLine1;
+      merged.mrzLine2 = mrzReading.data.mrzLine2;
+      merged.mrzLine3 = mrzReading.data.mrzLine3;
+      merged.mrzCorrections = mrzReading.data.mrzCorrections;
+    }
+
+    if (MERGED_FIELDS.some(key => merged[key].source === 'mrz' || merged[key].source === 'barcode')) {
+      merged.visualZone = this.mergeVisualZones(tagged.filter(reading => reading.side !== 'visaPage'));
+    }
+
+    merged.pageCount = readings.length;
+    merged.sides = readings.flatMap(reading => (reading.side ? [reading.side] : []));
+    merged.sideConflicts = sideConflicts;
+    return merged;
+  }
+
+  /**
+   * Printed fields from every image, so the front of a card can be compared
+   * with the MRZ on its back. An image without an MRZ or barcode has its
+   * printed readings in the main fields rather than in its visual zone.
+   */
+  private static mergeVisualZones(readings: SideReading[]): VisualZoneData {
+    const visualZone: VisualZoneData = {};
+
+    for (const key of COMPARABLE_FIELDS) {
+      for (const { data } of readings) {
+        const printed = data.visualZone?.[key] || (data[key].source === 'viz' ? data[key] : undefined);
+        if (printed?.found && (!visualZone[key] || printed.confidence > visualZone[key]!.confidence)) {
+          visualZone[key] = printed;
+        }
+      }
+    }
+
+    return visualZone;
+  }
+
+  private static outranks(a: ExtractedField, b: ExtractedField): boolean {
+    const rankA = a.source ? SOURCE_RANK[a.source] : 0;
+    const rankB = b.source ? SOURCE_RANK[b.source] : 0;
+    return rankA !== rankB ? rankA > rankB : a.confidence > b.confidence;
+  }
+
+  /**
+   * Whether a reading agrees with the chosen one, allowing for partial dates,
+   * equivalent country codes and names truncated or transliterated in the MRZ.
+   */
+  private static agrees(key: MergedField, chosenReading: FieldReading, otherReading: FieldReading): boolean {
+    const chosen = chosenReading.field;
+    const other = otherReading.field;
+
+    if (DATE_FIELDS.includes(key)) {
+      const a = PartialDates.parse(chosen.value);
+      const b = PartialDates.parse(other.value);
+      return a && b ? PartialDates.compatible(a, b) : chosen.value === other.value;
+    }
+
+    if (COUNTRY_FIELDS.includes(key)) {
+      return CountryRegistry.sameCountry(chosen.value, other.value);
+    }
+
+    if (key === 'documentType') {
+      return chosen.value.charAt(0) === other.value.charAt(0);
+    }
+
+    // A name may be a truncation of another only when it was read from an MRZ
+    // whose name field is full.
+    const truncatable = ({ data, field }: FieldReading) => field.source === 'mrz' && VIZComparator.nameFieldFull(data);
+    const field = key as ComparableField;
+    return (
+      VIZComparator.agrees(field, chosen.value, other.value, truncatable(chosenReading)) ||
+      VIZComparator.agrees(field, other.value, chosen.value, truncatable(otherReading))
+    );
+  }
+
+  /** Records the image each found field was read from. */
+  private static tag(data: ExtractedData, side: DocumentSide | undefined, page: number): ExtractedData {
+    const withSide = <T extends ExtractedField | undefined>(field: T): T =>
+      field && field.found ? { ...field, location: { ...field.location, page, side } } : field;
+
+    const tagged = { ...data };
+    for (const key of MERGED_FIELDS) {
+      tagged[key] = withSide(data[key]);
+    }
+    tagged.mrzLine1 = withSide(data.mrzLine1);
+    tagged.mrzLine2 = withSide(data.mrzLine2);
+    tagged.mrzLine3 = withSide(data.mrzLine3);
+
+    if (data.visualZone) {
+      const visualZone: VisualZoneData = {};
+      for (const key of COMPARABLE_FIELDS) {
+        visualZone[key] = withSide(data.visualZone[key]);
+      }
+      tagged.visualZone = visualZone;
+    }
+
+    return tagged;
+  }
+}
@@ -1,4 +1,36 @@
-import { ExtractedData, ValidationCheck, ApplicantData, EligibilityCheck, EligibilityPolicy } from './types';
+import {
+  DocumentSide,
+  ExtractedData,
+  ExtractedField,
+  ValidationCheck,
+  ApplicantData,
+  EligibilityCheck,
+  EligibilityPolicy,
+} from './types';
+import { CountryRegistry } from './country-registry';
+import { NameMatcher } from './name-matcher';
+import { PartialDate, PartialDates } from './partial-date';
+import { COMPARABLE_FIELDS, ComparableField, VIZComparator } from './viz-comparator';
+import { SIDE_LABELS } from './document-merger';
+import { RuleEngine } from './rule-engine';
+
+const VISUAL_ZONE_LABELS: { [key in ComparableField]: string } = {
+  documentNumber: 'Document Number',
+  surname: 'Surname',
+  givenNames: 'Given Names',
+  dateOfBirth: 'Date of Birth',
+  expiryDate: 'Expiry Date',
+  sex: 'Sex',
+};
+
+export const FIELD_LABELS: { [field: string]: string } = {
+  ...VISUAL_ZONE_LABELS,
+  documentType: 'Document Type',
+  nationality: 'Nationality',
+  issuingCountry: 'Issuing Country',
+  issueDate: 'Issue Date',
+  placeOfBirth: 'Place of Birth',
+};
 
 export class DocumentValidator {
   static validateDocument(extractedData: ExtractedData): ValidationCheck[] {
@@ -10,88 +42,161 @@ export class DocumentValidator {
     checks.push(this.checkNameFormat(extractedData));
     checks.push(this.checkDocumentNumberFormat(extractedData));
     checks.push(this.checkNationalityFormat(extractedData));
+    checks.push(this.checkIssuingCountryFormat(extractedData));
     checks.push(this.checkDateLogic(extractedData));
+    checks.push(this.checkVisualZoneConsistency(extractedData));
+    if (extractedData.pageCount && extractedData.pageCount > 1) {
+      checks.push(this.checkSideConsistency(extractedData));
+    }
 
     return checks;
   }
 
+  /**
+   * Result for a check whose inputs were not found on the document. It is
+   * neither a pass nor a failure, so reviewers are not misled by defaults.
+   */
+  private static unverified(check: string, missing: string[]): ValidationCheck & EligibilityCheck {
+    return {
+      check,
+      passed: false,
+      status: 'unverified',
+      message: `Unable to verify: ${missing.join(', ')} not found on document`,
+    };
+  }
+
+  private static missingFields(fields: { [name: string]: ExtractedField }): string[] {
+    return Object.entries(fields)
+      .filter(([, field]) => !field.found)
+      .map(([name]) => name);
+  }
+
   private static checkDocumentExpiry(data: ExtractedData): ValidationCheck {
-    try {
-      const expiryDate = new Date(data.expiryDate.value);
-      const today = new Date();
-      const isExpired = expiryDate < today;
+    if (!data.expiryDate.found) {
+      return this.unverified('Document Expiry', ['Expiry Date']);
+    }
+
+    const expiryDate = PartialDates.parse(data.expiryDate.value);
+    if (!expiryDate) {
+      return {
+        check: 'Document Expiry',
+        passed: false,
+        status: 'failed',
+        message: `Invalid expiry date: ${data.expiryDate.value}`,
+      };
+    }
 
+    const today = new Date();
+    if (PartialDates.latest(expiryDate) < today) {
       return {
         check: 'Document Expiry',
-        passed: !isExpired,
-        message: isExpired
-          ? `Document expired on ${data.expiryDate.value}`
-          : `Document valid until ${data.expiryDate.value}`,
+        passed: false,
+        status: 'failed',
+        message: `Document expired on ${data.expiryDate.value}`,
       };
-    } catch (error) {
+    }
+
+    if (PartialDates.earliest(expiryDate) < today) {
       return {
         check: 'Document Expiry',
         passed: false,
-        message: 'Invalid expiry date format',
+        status: 'unverified',
+        message: `Expiry date ${data.expiryDate.value} is incomplete; the document may already have expired`,
       };
     }
+
+    return {
+      check: 'Document Expiry',
+      passed: true,
+      status: 'passed',
+      message: `Document valid until ${data.expiryDate.value}`,
+    };
   }
 
   private static checkDateFormats(data: ExtractedData): ValidationCheck {
-    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
     const dates = [
-      { name: 'Date of Birth', value: data.dateOfBirth.value },
-      { name: 'Issue Date', value: data.issueDate.value },
-      { name: 'Expiry Date', value: data.expiryDate.value },
+      { name: 'Date of Birth', field: data.dateOfBirth },
+      { name: 'Issue Date', field: data.issueDate },
+      { name: 'Expiry Date', field: data.expiryDate },
     ];
 
-    const invalidDates = dates.filter(d => !dateRegex.test(d.value));
+    const foundDates = dates.filter(d => d.field.found);
+    if (foundDates.length === 0) {
+      return this.unverified('Date Format Validation', dates.map(d => d.name));
+    }
+
+    const invalidDates = foundDates.filter(d => !PartialDates.parse(d.field.value));
+    const partialDates = foundDates.filter(d => {
+      const date = PartialDates.parse(d.field.value);
+      return date && !PartialDates.isComplete(date);
+    });
+    const missingDates = dates.filter(d => !d.field.found);
+    const notes = [
+      ...(partialDates.length > 0 ? [`partially unknown: ${partialDates.map(d => d.name).join(', ')}`] : []),
+      ...(missingDates.length > 0 ? [`not found: ${missingDates.map(d => d.name).join(', ')}`] : []),
+    ];
+    const note = notes.length > 0 ? ` (${notes.join('; ')})` : '';
 
     return {
       check: 'Date Format Validation',
       passed: invalidDates.length === 0,
+      status: invalidDates.length === 0 ? 'passed' : 'failed',
       message:
         invalidDates.length === 0
-          ? 'All dates in valid ISO 8601 format'
-          : `Invalid date formats: ${invalidDates.map(d => d.name).join(', ')}`,
+          ? `All dates found are valid calendar dates${note}`
+          : `Invalid dates: ${invalidDates.map(d => `${d.name} (${d.field.value})`).join(', ')}`,
     };
   }
 
   private static checkAgeConsistency(data: ExtractedData): ValidationCheck {
-    try {
-      const dob = new Date(data.dateOfBirth.value);
-      const today = new Date();
-      let age = today.getFullYear() - dob.getFullYear();
-      const monthDiff = today.getMonth() - dob.getMonth();
-      if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < dob.getDate())) {
-        age--;
-      }
-
-      if (age < 0 || age > 150) {
-        return {
-          check: 'Age Consistency',
-          passed: false,
-          message: `Calculated age (${age}) is invalid`,
-        };
-      }
+    if (!data.dateOfBirth.found) {
+      return this.unverified('Age Consistency', ['Date of Birth']);
+    }
 
+    const dob = PartialDates.parse(data.dateOfBirth.value);
+    if (!dob) {
       return {
         check: 'Age Consistency',
-        passed: true,
-        message: `Holder age: ${age} years`,
+        passed: false,
+        status: 'failed',
+        message: 'Unable to calculate age from date of birth',
       };
-    } catch (error) {
+    }
+
+    const [minAge, maxAge] = PartialDates.ageRange(dob);
+    const age = this.formatAge(minAge, maxAge);
+
+    if (minAge < 0 || maxAge > 150) {
       return {
         check: 'Age Consistency',
         passed: false,
-        message: 'Unable to calculate age from date of birth',
+        status: 'failed',
+        message: `Calculated age (${age}) is invalid`,
       };
     }
+
+    return {
+      check: 'Age Consistency',
+      passed: true,
+      status: 'passed',
+      message: `Holder age: ${age} years`,
+    };
+  }
+
+  private static formatAge(minAge: number, maxAge: number): string {
+    return minAge === maxAge ? `${minAge}` : `${minAge}-${maxAge}`;
+  }
+
+  private static parseDate(field: ExtractedField): PartialDate | null {
+    return field.found ? PartialDates.parse(field.value) : null;
   }
 
   private static checkNameFormat(data: ExtractedData): ValidationCheck {
+    if (!data.surname.found) {
+      return this.unverified('Name Format', ['Surname']);
+    }
+
     const hasValidSurname = data.surname.value.length >= 1;
-    const hasValidGivenNames = data.givenNames.value.length >= 1;
     const nameRegex = /^[A-Za-z\s\-']+$/;
 
     const validFormat =
@@ -101,6 +206,7 @@ export class DocumentValidator {
     return {
       check: 'Name Format',
       passed: hasValidSurname && validFormat,
+      status: hasValidSurname && validFormat ? 'passed' : 'failed',
       message:
         hasValidSurname && validFormat
           ? 'Name format valid'
@@ -109,6 +215,10 @@ export class DocumentValidator {
   }
 
   private static checkDocumentNumberFormat(data: ExtractedData): ValidationCheck {
+    if (!data.documentNumber.found) {
+      return this.unverified('Document Number Format', ['Document Number']);
+    }
+
     const docNum = data.documentNumber.value;
     const hasValidLength = docNum.length >= 6 && docNum.length <= 12;
     const hasValidChars = /^[A-Z0-9]+$/.test(docNum);
@@ -116,6 +226,7 @@ export class DocumentValidator {
     return {
       check: 'Document Number Format',
       passed: hasValidLength && hasValidChars,
+      status: hasValidLength && hasValidChars ? 'passed' : 'failed',
       message:
         hasValidLength && hasValidChars
           ? 'Document number format valid'
@@ -124,44 +235,149 @@ export class DocumentValidator {
   }
 
   private static checkNationalityFormat(data: ExtractedData): ValidationCheck {
+    if (!data.nationality.found) {
+      return this.unverified('Nationality Code Format', ['Nationality']);
+    }
+
     const nationality = data.nationality.value;
-    const isValidCode = /^[A-Z]{3}$/.test(nationality);
+    const isValidCode = CountryRegistry.isValid(nationality);
 
     return {
       check: 'Nationality Code Format',
       passed: isValidCode,
+      status: isValidCode ? 'passed' : 'failed',
       message: isValidCode
-        ? `Valid nationality code: ${nationality}`
-        : 'Invalid nationality code (should be 3-letter ISO code)',
+        ? `Valid nationality code: ${CountryRegistry.describe(nationality)}`
+        : `Unknown nationality code ${nationality} (not an ISO 3166-1 or ICAO 9303 code)`,
     };
   }
 
-  private static checkDateLogic(data: ExtractedData): ValidationCheck {
-    try {
-      const dob = new Date(data.dateOfBirth.value);
-      const issueDate = new Date(data.issueDate.value);
-      const expiryDate = new Date(data.expiryDate.value);
+  private static checkIssuingCountryFormat(data: ExtractedData): ValidationCheck {
+    if (!data.issuingCountry.found) {
+      return this.unverified('Issuing State Code Format', ['Issuing Country']);
+    }
 
-      const dobBeforeIssue = dob < issueDate;
-      const issueBeforeExpiry = issueDate < expiryDate;
-      const dobNotFuture = dob < new Date();
+    const issuingCountry = data.issuingCountry.value;
+    const isValidCode = CountryRegistry.isValid(issuingCountry);
 
-      const allValid = dobBeforeIssue && issueBeforeExpiry && dobNotFuture;
+    return {
+      check: 'Issuing State Code Format',
+      passed: isValidCode,
+      status: isValidCode ? 'passed' : 'failed',
+      message: isValidCode
+        ? `Valid issuing state code: ${CountryRegistry.describe(issuingCountry)}`
+        : `Unknown issuing state code ${issuingCountry} (not an ISO 3166-1 or ICAO 9303 code)`,
+    };
+  }
 
-      return {
-        check: 'Date Logic',
-        passed: allValid,
-        message: allValid
-          ? 'All dates are logically consistent'
-          : 'Date sequence error: dates are not in logical order',
-      };
-    } catch (error) {
+  private static checkDateLogic(data: ExtractedData): ValidationCheck {
+    const fields = { 'Date of Birth': data.dateOfBirth, 'Issue Date': data.issueDate, 'Expiry Date': data.expiryDate };
+    const missing = this.missingFields(fields);
+    if (!data.dateOfBirth.found || missing.length > 1) {
+      return this.unverified('Date Logic', missing);
+    }
+
+    const dob = this.parseDate(data.dateOfBirth);
+    const issueDate = this.parseDate(data.issueDate);
+    const expiryDate = this.parseDate(data.expiryDate);
+    if (!dob || (data.issueDate.found && !issueDate) || (data.expiryDate.found && !expiryDate)) {
       return {
         check: 'Date Logic',
         passed: false,
+        status: 'failed',
         message: 'Unable to validate date logic',
       };
     }
+
+    const today = PartialDates.fromDate(new Date());
+    const dobBeforeIssue = !issueDate || PartialDates.possiblyBefore(dob, issueDate);
+    const issueBeforeExpiry = !issueDate || !expiryDate || PartialDates.possiblyBefore(issueDate, expiryDate);
+    const dobBeforeExpiry = !expiryDate || PartialDates.possiblyBefore(dob, expiryDate);
+    const dobNotFuture = PartialDates.possiblyBefore(dob, today);
+
+    const allValid = dobBeforeIssue && issueBeforeExpiry && dobBeforeExpiry && dobNotFuture;
+    const missingNote = missing.length > 0 ? ` (${missing.join(', ')} not found)` : '';
+
+    return {
+      check: 'Date Logic',
+      passed: allValid,
+      status: allValid ? 'passed' : 'failed',
+      message: allValid
+        ? `All dates are logically consistent${missingNote}`
+        : 'Date sequence error: dates are not in logical order',
+    };
+  }
+
+  /**
+   * Compares the printed visual zone field by field with the machine-readable
+   * data (MRZ or licence barcode). A printed value that disagrees is a common
+   * sign of an altered document.
+   */
+  private static checkVisualZoneConsistency(data: ExtractedData): ValidationCheck {
+    const reference = data.documentNumber.source === 'barcode' ? 'barcode' : 'MRZ';
+    const check = reference === 'MRZ' ? 'Visual Zone / MRZ Consistency' : 'Visual Zone / Barcode Consistency';
+    const visualZone = data.visualZone;
+    if (!visualZone) {
+      return this.unverified(check, ['MRZ or barcode']);
+    }
+
+    const compared = COMPARABLE_FIELDS.filter(
+      key => visualZone[key] && (data[key].source === 'mrz' || data[key].source === 'barcode')
+    );
+    if (compared.length === 0) {
+      return this.unverified(check, ['Printed fields']);
+    }
+
+    const nameFieldFull = VIZComparator.nameFieldFull(data);
+    const mismatches = compared
+      .filter(
+        key =>
+          !VIZComparator.agrees(key, data[key].value, visualZone[key]!.value, data[key].source === 'mrz' && nameFieldFull)
+      )
+      .map(key => `${VISUAL_ZONE_LABELS[key]}: ${reference} "${data[key].value}" vs printed "${visualZone[key]!.value}"`);
+
+    return {
+      check,
+      passed: mismatches.length === 0,
+      status: mismatches.length === 0 ? 'passed' : 'failed',
+      message:
+        mismatches.length === 0
+          ? `Printed fields match the ${reference} (${compared.map(key => VISUAL_ZONE_LABELS[key]).join(', ')})`
+          : `Printed fields disagree with the ${reference}: ${mismatches.join('; ')}`,
+    };
+  }
+
+  /**
+   * Fields read from more than one image or PDF page of the document, such
+   * as the front and back of an ID card, must agree between them.
+   */
+  private static checkSideConsistency(data: ExtractedData): ValidationCheck {
+    const conflicts = data.sideConflicts || [];
+    const pages =
+      data.sides && data.sides.length === data.pageCount
+        ? data.sides.map(side => SIDE_LABELS[side].toLowerCase()).join(', ')
+        : `${data.pageCount} pages`;
+
+    return {
+      check: 'Cross-Image Consistency',
+      passed: conflicts.length === 0,
+      status: conflicts.length === 0 ? 'passed' : 'failed',
+      message:
+        conflicts.length === 0
+          ? `Fields read from more than one image agree (${pages})`
+          : `Images disagree: ${conflicts
+              .map(
+                conflict =>
+                  `${FIELD_LABELS[conflict.field] || conflict.field}: ${conflict.readings
+                    .map(reading => `${this.pageLabel(reading.page, reading.side)} "${reading.value}"`)
+                    .join(' vs ')}`
+              )
+              .join('; ')}`,
+    };
+  }
+
+  private static pageLabel(page: number, side?: DocumentSide): string {
+    return side ? SIDE_LABELS[side].toLowerCase() : `page ${page}`;
   }
 
   static checkEligibility(
@@ -171,7 +387,7 @@ export class DocumentValidator {
   ): EligibilityCheck[] {
     const checks: EligibilityCheck[] = [];
 
-    checks.push(this.checkNameMatch(extractedData, applicantData));
+    checks.push(this.checkNameMatch(extractedData, applicantData, policy));
     checks.push(this.checkDOBMatch(extractedData, applicantData));
     checks.push(this.checkPassportNumberMatch(extractedData, applicantData));
     checks.push(this.checkNationalityMatch(extractedData, applicantData));
@@ -180,43 +396,69 @@ export class DocumentValidator {
     checks.push(this.checkDocumentType(extractedData, policy));
     checks.push(this.checkValidityPeriod(extractedData, policy));
     checks.push(this.checkVisaTypeRequirements(extractedData, applicantData, policy));
+    checks.push(...RuleEngine.evaluate(extractedData, applicantData, policy));
 
     return checks;
   }
 
-  private static checkNameMatch(data: ExtractedData, applicant: ApplicantData): EligibilityCheck {
-    const extractedFullName = `${data.givenNames.value} ${data.surname.value}`.toLowerCase().trim();
-    const applicantName = applicant.name.toLowerCase().trim();
+  private static checkNameMatch(
+    data: ExtractedData,
+    applicant: ApplicantData,
+    policy: EligibilityPolicy
+  ): EligibilityCheck {
+    const missing = this.missingFields({ Surname: data.surname, 'Given Names': data.givenNames });
+    if (missing.length === 2) {
+      return this.unverified('Name Match', missing);
+    }
 
-    const match = extractedFullName === applicantName;
+    const nameFieldFull = data.surname.source === 'mrz' && VIZComparator.nameFieldFull(data);
+    const result = NameMatcher.match(data.surname.value, data.givenNames.value, applicant.name, nameFieldFull);
+    const minimum = policy.minNameMatchGrade || 'strong';
+    const match = NameMatcher.meetsGrade(result.grade, minimum);
+    const documentName = `${data.givenNames.value} ${data.surname.value}`.trim();
 
     return {
       check: 'Name Match',
       passed: match,
+      status: match ? 'passed' : 'failed',
       message: match
-        ? 'Applicant name matches document'
-        : `Name mismatch: Document shows "${extractedFullName}", applicant claims "${applicantName}"`,
+        ? `Applicant name matches document (${result.grade}, score ${result.score}): ${result.explanation}`
+        : `Name mismatch (${result.grade}, score ${result.score}, policy requires ${minimum}): ` +
+          `Document shows "${documentName}", applicant claims "${applicant.name}". ${result.explanation}`,
     };
   }
 
   private static checkDOBMatch(data: ExtractedData, applicant: ApplicantData): EligibilityCheck {
-    const match = data.dateOfBirth.value === applicant.dateOfBirth;
+    if (!data.dateOfBirth.found) {
+      return this.unverified('Date of Birth Match', ['Date of Birth']);
+    }
+
+    const documentDob = PartialDates.parse(data.dateOfBirth.value);
+    const applicantDob = PartialDates.parse(applicant.dateOfBirth);
+    const match = !!documentDob && !!applicantDob && PartialDates.compatible(documentDob, applicantDob);
+    const partialNote = match && !PartialDates.isComplete(documentDob!) ? ' (document date of birth is incomplete)' : '';
 
     return {
       check: 'Date of Birth Match',
       passed: match,
+      status: match ? 'passed' : 'failed',
       message: match
-        ? 'Date of birth matches'
+        ? `Date of birth matches${partialNote}`
         : `DOB mismatch: Document shows ${data.dateOfBirth.value}, applicant claims ${applicant.dateOfBirth}`,
     };
   }
 
   private static checkPassportNumberMatch(data: ExtractedData, applicant: ApplicantData): EligibilityCheck {
+    if (!data.documentNumber.found) {
+      return this.unverified('Passport Number Match', ['Document Number']);
+    }
+
     const match = data.documentNumber.value === applicant.passportNumber;
 
     return {
       check: 'Passport Number Match',
       passed: match,
+      status: match ? 'passed' : 'failed',
       message: match
         ? 'Passport number matches'
         : `Passport number mismatch: Document shows ${data.documentNumber.value}, applicant claims ${applicant.passportNumber}`,
@@ -224,11 +466,16 @@ export class DocumentValidator {
   }
 
   private static checkNationalityMatch(data: ExtractedData, applicant: ApplicantData): EligibilityCheck {
-    const match = data.nationality.value === applicant.nationality;
+    if (!data.nationality.found) {
+      return this.unverified('Nationality Match', ['Nationality']);
+    }
+
+    const match = CountryRegistry.sameCountry(data.nationality.value, applicant.nationality);
 
     return {
       check: 'Nationality Match',
       passed: match,
+      status: match ? 'passed' : 'failed',
       message: match
         ? 'Nationality matches'
         : `Nationality mismatch: Document shows ${data.nationality.value}, applicant claims ${applicant.nationality}`,
@@ -240,52 +487,73 @@ export class DocumentValidator {
     applicant: ApplicantData,
     policy: EligibilityPolicy
   ): EligibilityCheck {
-    try {
-      const dob = new Date(data.dateOfBirth.value);
-      const today = new Date();
-      let age = today.getFullYear() - dob.getFullYear();
-      const monthDiff = today.getMonth() - dob.getMonth();
-      if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < dob.getDate())) {
-        age--;
-      }
-
-      const visaTypeReq = policy.visaTypeRequirements[applicant.intendedVisaType];
-      const minAge = visaTypeReq?.minAge || policy.minAge;
-      const maxAge = policy.maxAge;
-
-      const meetsAge = age >= minAge && age <= maxAge;
+    if (!data.dateOfBirth.found) {
+      return this.unverified('Age Requirements', ['Date of Birth']);
+    }
 
+    const dob = PartialDates.parse(data.dateOfBirth.value);
+    if (!dob) {
       return {
         check: 'Age Requirements',
-        passed: meetsAge,
-        message: meetsAge
-          ? `Age ${age} meets requirements (${minAge}-${maxAge})`
-          : `Age ${age} does not meet requirements (${minAge}-${maxAge})`,
+        passed: false,
+        status: 'failed',
+        message: 'Unable to verify age requirements',
       };
-    } catch (error) {
+    }
+
+    const [youngest, oldest] = PartialDates.ageRange(dob);
+    const age = this.formatAge(youngest, oldest);
+
+    const visaTypeReq = RuleEngine.visaTypeRequirement(policy, applicant.intendedVisaType);
+    const minAge = visaTypeReq?.minAge || policy.minAge;
+    const maxAge = policy.maxAge;
+
+    const meetsAge = youngest >= minAge && oldest <= maxAge;
+    const failsAge = oldest < minAge || youngest > maxAge;
+
+    if (!meetsAge && !failsAge) {
       return {
         check: 'Age Requirements',
         passed: false,
-        message: 'Unable to verify age requirements',
+        status: 'unverified',
+        message: `Age ${age} cannot be confirmed against requirements (${minAge}-${maxAge}): date of birth is incomplete`,
       };
     }
+
+    return {
+      check: 'Age Requirements',
+      passed: meetsAge,
+      status: meetsAge ? 'passed' : 'failed',
+      message: meetsAge
+        ? `Age ${age} meets requirements (${minAge}-${maxAge})`
+        : `Age ${age} does not meet requirements (${minAge}-${maxAge})`,
+    };
   }
 
   private static checkNationalityEligibility(data: ExtractedData, policy: EligibilityPolicy): EligibilityCheck {
+    if (!data.nationality.found) {
+      return this.unverified('Nationality Eligibility', ['Nationality']);
+    }
+
     const nationality = data.nationality.value;
 
-    if (policy.blockedNationalities.includes(nationality)) {
+    if (policy.blockedNationalities.some(code => CountryRegistry.sameCountry(code, nationality))) {
       return {
         check: 'Nationality Eligibility',
         passed: false,
+        status: 'failed',
         message: `Nationality ${nationality} is not eligible for visa`,
       };
     }
 
-    if (policy.allowedNationalities.length > 0 && !policy.allowedNationalities.includes(nationality)) {
+    if (
+      policy.allowedNationalities.length > 0 &&
+      !policy.allowedNationalities.some(code => CountryRegistry.sameCountry(code, nationality))
+    ) {
       return {
         check: 'Nationality Eligibility',
         passed: false,
+        status: 'failed',
         message: `Nationality ${nationality} is not in allowed list`,
       };
     }
@@ -293,17 +561,23 @@ export class DocumentValidator {
     return {
       check: 'Nationality Eligibility',
       passed: true,
+      status: 'passed',
       message: `Nationality ${nationality} is eligible`,
     };
   }
 
   private static checkDocumentType(data: ExtractedData, policy: EligibilityPolicy): EligibilityCheck {
+    if (!data.documentType.found) {
+      return this.unverified('Document Type', ['Document Type']);
+    }
+
     const docType = data.documentType.value;
     const isAllowed = policy.requiredDocumentTypes.length === 0 || policy.requiredDocumentTypes.includes(docType);
 
     return {
       check: 'Document Type',
       passed: isAllowed,
+      status: isAllowed ? 'passed' : 'failed',
       message: isAllowed
         ? `Document type ${docType} is accepted`
         : `Document type ${docType} is not accepted. Required: ${policy.requiredDocumentTypes.join(', ')}`,
@@ -311,27 +585,41 @@ export class DocumentValidator {
   }
 
   private static checkValidityPeriod(data: ExtractedData, policy: EligibilityPolicy): EligibilityCheck {
-    try {
-      const expiryDate = new Date(data.expiryDate.value);
-      const today = new Date();
-      const monthsValid = (expiryDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24 * 30);
-
-      const meetsRequirement = monthsValid >= policy.minValidityMonths;
+    if (!data.expiryDate.found) {
+      return this.unverified('Validity Period', ['Expiry Date']);
+    }
 
+    const expiryDate = PartialDates.parse(data.expiryDate.value);
+    if (!expiryDate) {
       return {
         check: 'Validity Period',
-        passed: meetsRequirement,
-        message: meetsRequirement
-          ? `Document valid for ${Math.floor(monthsValid)} months (min: ${policy.minValidityMonths})`
-          : `Document only valid for ${Math.floor(monthsValid)} months, requires ${policy.minValidityMonths}`,
+        passed: false,
+        status: 'failed',
+        message: 'Unable to verify validity period',
       };
-    } catch (error) {
+    }
+
+    const monthsValid = PartialDates.daysUntil(expiryDate) / 30;
+    const maxMonthsValid = PartialDates.daysUntil(expiryDate, new Date(), 'latest') / 30;
+
+    const meetsRequirement = monthsValid >= policy.minValidityMonths;
+    if (!meetsRequirement && maxMonthsValid >= policy.minValidityMonths) {
       return {
         check: 'Validity Period',
         passed: false,
-        message: 'Unable to verify validity period',
+        status: 'unverified',
+        message: `Expiry date ${data.expiryDate.value} is incomplete; cannot confirm ${policy.minValidityMonths} months of validity`,
       };
     }
+
+    return {
+      check: 'Validity Period',
+      passed: meetsRequirement,
+      status: meetsRequirement ? 'passed' : 'failed',
+      message: meetsRequirement
+        ? `Document valid for ${Math.floor(monthsValid)} months (min: ${policy.minValidityMonths})`
+        : `Document only valid for ${Math.floor(monthsValid)} months, requires ${policy.minValidityMonths}`,
+    };
   }
 
   private static checkVisaTypeRequirements(
@@ -339,28 +627,37 @@ export class DocumentValidator {
     applicant: ApplicantData,
     policy: EligibilityPolicy
   ): EligibilityCheck {
-    const visaTypeReq = policy.visaTypeRequirements[applicant.intendedVisaType];
+    const visaTypeReq = RuleEngine.visaTypeRequirement(policy, applicant.intendedVisaType);
 
     if (!visaTypeReq) {
       return {
         check: 'Visa Type Requirements',
         passed: true,
+        status: 'passed',
         message: `No specific requirements for visa type: ${applicant.intendedVisaType}`,
       };
     }
 
     const nationality = data.nationality.value;
-    if (visaTypeReq.allowedNationalities && !visaTypeReq.allowedNationalities.includes(nationality)) {
-      return {
-        check: 'Visa Type Requirements',
-        passed: false,
-        message: `Nationality ${nationality} not eligible for ${applicant.intendedVisaType} visa`,
-      };
+    if (visaTypeReq.allowedNationalities && visaTypeReq.allowedNationalities.length > 0) {
+      if (!data.nationality.found) {
+        return this.unverified('Visa Type Requirements', ['Nationality']);
+      }
+
+      if (!visaTypeReq.allowedNationalities.some(code => CountryRegistry.sameCountry(code, nationality))) {
+        return {
+          check: 'Visa Type Requirements',
+          passed: false,
+          status: 'failed',
+          message: `Nationality ${nationality} not eligible for ${applicant.intendedVisaType} visa`,
+        };
+      }
     }
 
     return {
       check: 'Visa Type Requirements',
       passed: true,
+      status: 'passed',
       message: `Meets all requirements for ${applicant.intendedVisaType} visa`,
     };
   }
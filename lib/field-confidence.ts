@@ -0,0 +1,190 @@
+import { Page } from 'tesseract.js';
+import { BoundingBox, MRZCorrection } from './types';
+import { MRZFormat } from './mrz-validator';
+
+export interface MRZReading {
+  lines: string[];
+  charConfidences: number[][];
+  charBoxes: BoundingBox[][];
+}
+
+export type FieldRange = [line: number, start: number, end: number];
+
+interface FieldRanges {
+  documentType: FieldRange;
+  issuingCountry: FieldRange;
+  name: FieldRange;
+  documentNumber: FieldRange;
+  nationality: FieldRange;
+  dateOfBirth: FieldRange;
+  sex: FieldRange;
+  expiryDate: FieldRange;
+}
+
+export type MRZField = Exclude<keyof FieldRanges, 'name'> | 'surname' | 'givenNames';
+
+const TWO_LINE_RANGES = (length: number): FieldRanges => ({
+  documentType: [0, 0, 2],
+  issuingCountry: [0, 2, 5],
+  name: [0, 5, length],
+  documentNumber: [1, 0, 9],
+  nationality: [1, 10, 13],
+  dateOfBirth: [1, 13, 19],
+  sex: [1, 20, 21],
+  expiryDate: [1, 21, 27],
+});
+
+const FIELD_RANGES: { [key in MRZFormat]: FieldRanges } = {
+  TD1: {
+    documentType: [0, 0, 2],
+    issuingCountry: [0, 2, 5],
+    documentNumber: [0, 5, 14],
+    dateOfBirth: [1, 0, 6],
+    sex: [1, 7, 8],
+    expiryDate: [1, 8, 14],
+    nationality: [1, 15, 18],
+    name: [2, 0, 30],
+  },
+  TD2: TWO_LINE_RANGES(36),
+  TD3: TWO_LINE_RANGES(44),
+  MRVA: TWO_LINE_RANGES(44),
+  MRVB: TWO_LINE_RANGES(36),
+};
+
+const CHECK_DIGIT_PASS_WEIGHT = 0.5;
+const CHECK_DIGIT_FAIL_CAP = 40;
+const CORRECTION_PENALTY = 3;
+const AGREEMENT_WEIGHT = 0.3;
+const DISAGREEMENT_FACTOR = 0.7;
+const UNLOCATED_FACTOR = 0.5;
+const BARCODE_CONFIDENCE = 98;
+
+export class FieldConfidence {
+  /**
+   * Scores an MRZ field from the Tesseract confidences of the characters it
+   * was read from, then raises it when the field's own check digit passed,
+   * caps it when the digit failed, and adjusts for agreement with the
+   * printed visual zone.
+   */
+  static forMRZField(
+    field: MRZField,
+    format: MRZFormat,
+    reading: MRZReading,
+    checkDigits: { [field: string]: boolean },
+    corrections: MRZCorrection[],
+    vizAgreement?: boolean
+  ): number {
+    const range = this.mrzFieldRange(field, format, reading.lines);
+    if (!range) return 0;
+
+    const [line, start, end] = range;
+    const confidences = reading.charConfidences[line]?.slice(start, end) || [];
+    let score = this.mean(confidences);
+
+    const checkDigit = checkDigits[field];
+    if (checkDigit === true) {
+      score += (100 - score) * CHECK_DIGIT_PASS_WEIGHT;
+    } else if (checkDigit === false) {
+      score = Math.min(score, CHECK_DIGIT_FAIL_CAP);
+    }
+
+    const corrected = corrections.filter(
+      c => c.line - 1 === line && c.position - 1 >= start && c.position - 1 < end
+    ).length;
+    score -= corrected * CORRECTION_PENALTY;
+
+    return this.applyAgreement(score, vizAgreement);
+  }
+
+  static forMRZLine(reading: MRZReading, index: number, valid: boolean): number {
+    const score = this.mean(reading.charConfidences[index] || []);
+    return this.clamp(valid ? score + (100 - score) * CHECK_DIGIT_PASS_WEIGHT : Math.min(score, CHECK_DIGIT_FAIL_CAP));
+  }
+
+  /**
+   * Scores a value parsed from the printed text by the confidence of the
+   * Tesseract words that make up its source snippet. Values whose source
+   * cannot be located on the page fall back to a discounted page confidence.
+   */
+  static forText(page: Page, source: string, vizAgreement?: boolean): number {
+    if (!source) return 0;
+
+    const normalisedSource = this.normalise(source);
+    const line = page.lines.find(l => this.normalise(l.text).includes(normalisedSource));
+    if (!line) {
+      return this.applyAgreement(page.confidence * UNLOCATED_FACTOR, vizAgreement);
+    }
+
+    const words = line.words.filter(word => {
+      const text = this.normalise(word.text);
+      return text && normalisedSource.includes(text);
+    });
+    const score = words.length > 0 ? this.mean(words.map(word => word.confidence)) : line.confidence;
+
+    return this.applyAgreement(score, vizAgreement);
+  }
+
+  /**
+   * Barcode data is protected by Reed-Solomon error correction, so a decoded
+   * value is near certain; only disagreement with the printed front lowers it.
+   */
+  static forBarcode(vizAgreement?: boolean): number {
+    return this.applyAgreement(BARCODE_CONFIDENCE, vizAgreement);
+  }
+
+  static mrzFieldRange(field: MRZField, format: MRZFormat, lines: string[]): FieldRange | null {
+    const ranges = FIELD_RANGES[format];
+    if (field === 'documentNumber' && format === 'TD1') {
+      return this.td1DocumentNumberRange(lines[0] || '');
+    }
+    if (field !== 'surname' && field !== 'givenNames') {
+      return ranges[field];
+    }
+
+    const [line, start, end] = ranges.name;
+    const nameField = lines[line]?.substring(start, end) || '';
+    const separator = nameField.indexOf('<<');
+    if (field === 'surname') {
+      return [line, start, start + (separator >= 0 ? separator : nameField.length)];
+    }
+
+    if (separator < 0) return null;
+    const givenEnd = nameField.replace(/<+$/, '').length;
+    return [line, start + separator + 2, start + Math.max(separator + 2, givenEnd)];
+  }
+
+  /**
+   * A TD1 document number longer than nine characters continues after the
+   * '<' in the check digit position, up to the next filler character.
+   */
+  private static td1DocumentNumberRange(line1: string): FieldRange {
+    if (line1[14] !== '<' || !line1[15] || line1[15] === '<') {
+      return FIELD_RANGES.TD1.documentNumber;
+    }
+    const filler = line1.indexOf('<', 15);
+    const overflowEnd = filler >= 0 ? filler : line1.length;
+    return [0, 5, Math.max(15, overflowEnd - 1)];
+  }
+
+  private static applyAgreement(score: number, vizAgreement?: boolean): number {
+    if (vizAgreement === true) {
+      score += (100 - score) * AGREEMENT_WEIGHT;
+    } else if (vizAgreement === false) {
+      score *= DISAGREEMENT_FACTOR;
+    }
+    return this.clamp(score);
+  }
+
+  private static normalise(text: string): string {
+    return text.toUpperCase().replace(/\s+/g, '');
+  }
+
+  private static mean(values: number[]): number {
+    if (values.length === 0) return 0;
+    return values.reduce((acc, val) => acc + val, 0) / values.length;
+  }
+
+  private static clamp(score: number): number {
+    return Math.round(Math.min(100, Math.max(0, score)));
+  }
+}
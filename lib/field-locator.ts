@@ -0,0 +1,48 @@
+import { Page } from 'tesseract.js';
+import { BoundingBox, FieldLocation } from './types';
+import { MRZFormat } from './mrz-validator';
+import { FieldConfidence, MRZField, MRZReading } from './field-confidence';
+
+/**
+ * Bounding boxes are in the coordinate space of the preprocessed image that
+ * was passed to Tesseract, not the original upload.
+ */
+export class FieldLocator {
+  static forMRZField(field: MRZField, format: MRZFormat, reading: MRZReading, page = 1): FieldLocation {
+    const range = FieldConfidence.mrzFieldRange(field, format, reading.lines);
+    if (!range) return { page };
+
+    const [line, start, end] = range;
+    return { page, bbox: this.union(reading.charBoxes[line]?.slice(start, end) || []) };
+  }
+
+  static forText(ocrPage: Page, source: string, page = 1): FieldLocation | undefined {
+    if (!source) return undefined;
+
+    const normalisedSource = this.normalise(source);
+    const line = ocrPage.lines.find(l => this.normalise(l.text).includes(normalisedSource));
+    if (!line) return { page };
+
+    const words = line.words.filter(word => {
+      const text = this.normalise(word.text);
+      return text && normalisedSource.includes(text);
+    });
+
+    return { page, bbox: this.union(words.length > 0 ? words.map(word => word.bbox) : [line.bbox]) };
+  }
+
+  private static union(boxes: BoundingBox[]): BoundingBox | undefined {
+    if (boxes.length === 0) return undefined;
+
+    return {
+      x0: Math.min(...boxes.map(box => box.x0)),
+      y0: Math.min(...boxes.map(box => box.y0)),
+      x1: Math.max(...boxes.map(box => box.x1)),
+      y1: Math.max(...boxes.map(box => box.y1)),
+    };
+  }
+
+  private static normalise(text: string): string {
+    return text.toUpperCase().replace(/\s+/g, '');
+  }
+}
@@ -0,0 +1,242 @@
+import sharp from 'sharp';
+
+export interface PreprocessedImage {
+  image: Buffer;
+  mrzBand: Buffer | null;
+  mrzBandTop: number;
+  skewAngle: number;
+  width: number;
+  height: number;
+}
+
+interface GrayImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+const WORKING_WIDTH = 1600;
+const SKEW_SAMPLE_WIDTH = 600;
+const MAX_SKEW_DEGREES = 10;
+const SKEW_STEP_DEGREES = 0.5;
+const BINARISE_WINDOW_RATIO = 1 / 16;
+const BINARISE_SENSITIVITY = 0.15;
+const MRZ_SEARCH_FRACTION = 0.45;
+
+export class ImagePreprocessor {
+  /**
+   * Prepares a phone photo or scan for OCR: EXIF rotation, grayscale,
+   * contrast normalisation, border cropping, deskew and adaptive
+   * binarisation. The bottom text block that looks like an MRZ is returned
+   * separately so it can be read with an MRZ-only character set.
+   */
+  static async preprocess(input: Buffer): Promise<PreprocessedImage> {
+    const normalised = await sharp(input)
+      .rotate()
+      .grayscale()
+      .normalise()
+      .resize({ width: WORKING_WIDTH, withoutEnlargement: true })
+      .toBuffer();
+
+    const cropped = await this.cropDocumentBorder(normalised);
+    const binary = this.binarise(await this.toGray(cropped));
+    const skewAngle = this.estimateSkew(binary);
+    const deskewed = skewAngle === 0 ? binary : await this.rotate(binary, -skewAngle);
+
+    const image = await this.fromGray(deskewed);
+    const band = await this.extractMRZBand(deskewed);
+
+    return {
+      image,
+      mrzBand: band?.image || null,
+      mrzBandTop: band?.top || 0,
+      skewAngle,
+      width: deskewed.width,
+      height: deskewed.height,
+    };
+  }
+
+  static decodeDataUrl(imageData: string): Buffer {
+    const base64Data = imageData.split(',')[1] || imageData;
+    return Buffer.from(base64Data, 'base64');
+  }
+
+  private static async toGray(input: Buffer): Promise<GrayImage> {
+    const { data, info } = await sharp(input).grayscale().raw().toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+  }
+
+  private static async rotate(image: GrayImage, angle: number): Promise<GrayImage> {
+    const { data, info } = await sharp(image.data, { raw: { width: image.width, height: image.height, channels: 1 } })
+      .rotate(angle, { background: { r: 255, g: 255, b: 255 } })
+      .grayscale()
+      .threshold(128)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+  }
+
+  private static fromGray(image: GrayImage): Promise<Buffer> {
+    return sharp(image.data, { raw: { width: image.width, height: image.height, channels: 1 } })
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * Trims the uniform background around the document. A trim that would keep
+   * less than a quarter of the photo most likely cut into the page itself, so
+   * the uncropped image is used instead.
+   */
+  private static async cropDocumentBorder(input: Buffer): Promise<Buffer> {
+    try {
+      const trimmed = await sharp(input).trim({ threshold: 30 }).toBuffer({ resolveWithObject: true });
+      const original = await sharp(input).metadata();
+      const keptArea = (trimmed.info.width * trimmed.info.height) / ((original.width || 1) * (original.height || 1));
+
+      return keptArea >= 0.25 ? trimmed.data : input;
+    } catch {
+      return input;
+    }
+  }
+
+  /**
+   * Projection-profile skew estimate: text lines produce the sharpest row
+   * histogram when the sampled dark pixels are rotated back to horizontal.
+   */
+  private static estimateSkew(image: GrayImage): number {
+    const { data, width, height } = image;
+    const stride = Math.max(1, Math.round(width / SKEW_SAMPLE_WIDTH));
+
+    const points: Array<[number, number]> = [];
+    for (let y = 0; y < height; y += stride) {
+      for (let x = 0; x < width; x += stride) {
+        if (data[y * width + x] === 0) points.push([x / stride, y / stride]);
+      }
+    }
+
+    if (points.length < 100) return 0;
+
+    let bestAngle = 0;
+    let bestScore = -Infinity;
+    const rows = Math.ceil((height + width) / stride);
+
+    for (let angle = -MAX_SKEW_DEGREES; angle <= MAX_SKEW_DEGREES; angle += SKEW_STEP_DEGREES) {
+      const radians = (angle * Math.PI) / 180;
+      const sin = Math.sin(radians);
+      const cos = Math.cos(radians);
+      const histogram = new Float64Array(rows * 2);
+
+      for (const [x, y] of points) {
+        histogram[Math.round(y * cos - x * sin) + rows]++;
+      }
+
+      let score = 0;
+      for (let i = 1; i < histogram.length; i++) {
+        const diff = histogram[i] - histogram[i - 1];
+        score += diff * diff;
+      }
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestAngle = angle;
+      }
+    }
+
+    return bestAngle;
+  }
+
+  /**
+   * Bradley adaptive threshold: each pixel is compared with the mean of its
+   * neighbourhood, which copes with shadows and uneven phone lighting.
+   */
+  private static binarise(image: GrayImage): GrayImage {
+    const { data, width, height } = image;
+    const integral = new Float64Array((width + 1) * (height + 1));
+
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0;
+      for (let x = 0; x < width; x++) {
+        rowSum += data[y * width + x];
+        integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+      }
+    }
+
+    const half = Math.max(1, Math.floor((width * BINARISE_WINDOW_RATIO) / 2));
+    const output = Buffer.alloc(width * height);
+
+    for (let y = 0; y < height; y++) {
+      const y1 = Math.max(0, y - half);
+      const y2 = Math.min(height - 1, y + half);
+      for (let x = 0; x < width; x++) {
+        const x1 = Math.max(0, x - half);
+        const x2 = Math.min(width - 1, x + half);
+        const count = (x2 - x1 + 1) * (y2 - y1 + 1);
+        const sum =
+          integral[(y2 + 1) * (width + 1) + x2 + 1] -
+          integral[y1 * (width + 1) + x2 + 1] -
+          integral[(y2 + 1) * (width + 1) + x1] +
+          integral[y1 * (width + 1) + x1];
+
+        output[y * width + x] = data[y * width + x] * count < sum * (1 - BINARISE_SENSITIVITY) ? 0 : 255;
+      }
+    }
+
+    return { data: output, width, height };
+  }
+
+  /**
+   * The MRZ is the last block of two or three evenly spaced, dense text lines
+   * at the bottom of the data page (or the back of an ID card). Column edges
+   * and solid rows are ignored so leftover background after deskew does not
+   * merge with the text.
+   */
+  private static async extractMRZBand(image: GrayImage): Promise<{ image: Buffer; top: number } | null> {
+    const { data, width, height } = image;
+    const searchStart = Math.floor(height * (1 - MRZ_SEARCH_FRACTION));
+    const density: number[] = [];
+
+    const left = Math.floor(width * 0.1);
+    const right = Math.ceil(width * 0.9);
+
+    for (let y = searchStart; y < height; y++) {
+      let dark = 0;
+      for (let x = left; x < right; x++) {
+        if (data[y * width + x] === 0) dark++;
+      }
+      density.push(dark / (right - left));
+    }
+
+    const lines: Array<{ start: number; end: number }> = [];
+    let lineStart = -1;
+    density.forEach((value, i) => {
+      const isText = value > 0.04 && value < 0.6;
+      if (isText && lineStart < 0) lineStart = i;
+      if (!isText && lineStart >= 0) {
+        if (i - lineStart >= 5) lines.push({ start: lineStart, end: i });
+        lineStart = -1;
+      }
+    });
+    if (lineStart >= 0 && density.length - lineStart >= 5) {
+      lines.push({ start: lineStart, end: density.length });
+    }
+
+    if (lines.length < 2) return null;
+
+    const candidate = lines.slice(-3);
+    const heights = candidate.map(line => line.end - line.start);
+    const meanHeight = heights.reduce((acc, h) => acc + h, 0) / heights.length;
+    const block = candidate.filter(line => Math.abs(line.end - line.start - meanHeight) <= meanHeight * 0.5);
+    if (block.length < 2) return null;
+
+    const padding = Math.round(meanHeight * 0.6);
+    const top = Math.max(0, searchStart + block[0].start - padding);
+    const bottom = Math.min(height, searchStart + block[block.length - 1].end + padding);
+
+    const band = await sharp(data, { raw: { width, height, channels: 1 } })
+      .extract({ left: 0, top, width, height: bottom - top })
+      .png()
+      .toBuffer();
+
+    return { image: band, top };
+  }
+}
@@ -0,0 +1,135 @@
+export type ManifestFormat = 'csv' | 'jsonl';
+
+/** One applicant of a batch manifest, with the line it came from. */
+export interface ManifestRow {
+  line: number;
+  values: { [column: string]: unknown };
+}
+
+export class ManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ManifestError';
+  }
+}
+
+export class ManifestParser {
+  /**
+   * Picks the format from the file name, falling back to the content: JSON
+   * Lines start with `{`.
+   */
+  static detectFormat(fileName: string, text: string): ManifestFormat {
+    if (/\.jsonl?$/i.test(fileName)) return 'jsonl';
+    if (/\.csv$/i.test(fileName)) return 'csv';
+    return text.trimStart().startsWith('{') ? 'jsonl' : 'csv';
+  }
+
+  static parse(text: string, format: ManifestFormat): ManifestRow[] {
+    const content = text.replace(/^\uFEFF/, '');
+    const rows = format === 'jsonl' ? this.parseJSONL(content) : this.parseCSV(content);
+    if (rows.length === 0) {
+      throw new ManifestError('Manifest has no applicant rows');
+    }
+    return rows;
+  }
+
+  private static parseJSONL(text: string): ManifestRow[] {
+    const rows: ManifestRow[] = [];
+    text.split(/\r?\n/).forEach((line, i) => {
+      if (line.trim() === '') return;
+      let value: unknown;
+      try {
+        value = JSON.parse(line);
+      } catch (error: any) {
+        throw new ManifestError(`Line ${i + 1} is not valid JSON: ${error.message}`);
+      }
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new ManifestError(`Line ${i + 1} must be a JSON object`);
+      }
+      rows.push({ line: i + 1, values: value as { [column: string]: unknown } });
+    });
+    return rows;
+  }
+
+  /**
+   * RFC 4180 CSV with a header row. Quoted values may contain commas,
+   * doubled quotes and line breaks. Empty lines are skipped.
+   */
+  private static parseCSV(text: string): ManifestRow[] {
+    const records = this.readRecords(text);
+    if (records.length === 0) {
+      return [];
+    }
+
+    const [header, ...body] = records;
+    const columns = header.fields.map(column => column.trim());
+    if (columns.some(column => column === '') || new Set(columns).size !== columns.length) {
+      throw new ManifestError('CSV header must name every column once');
+    }
+
+    return body
+      .filter(record => record.fields.some(field => field.trim() !== ''))
+      .map(record => {
+        if (record.fields.length !== columns.length) {
+          throw new ManifestError(`Line ${record.line} has ${record.fields.length} values, expected ${columns.length}`);
+        }
+        const values: { [column: string]: unknown } = {};
+        columns.forEach((column, i) => {
+          values[column] = record.fields[i];
+        });
+        return { line: record.line, values };
+      });
+  }
+
+  private static readRecords(text: string): { line: number; fields: string[] }[] {
+    const records: { line: number; fields: string[] }[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          if (char === '\n') line++;
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === ',') {
+        fields.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        fields.push(field);
+        records.push({ line: recordLine, fields });
+        fields = [];
+        field = '';
+        line++;
+        recordLine = line;
+      } else {
+        field += char;
+      }
+    }
+
+    if (quoted) {
+      throw new ManifestError(`Unterminated quoted value starting on line ${recordLine}`);
+    }
+    if (field !== '' || fields.length > 0) {
+      fields.push(field);
+      records.push({ line: recordLine, fields });
+    }
+    return records;
+  }
+}
@@ -0,0 +1,64 @@
+import { ExtractedData, ExtractedField, FieldCorrections } from './types';
+
+/** Extracted fields a reviewer may correct. */
+export const CORRECTABLE_FIELDS = [
+  'documentType',
+  'documentNumber',
+  'surname',
+  'givenNames',
+  'nationality',
+  'dateOfBirth',
+  'sex',
+  'placeOfBirth',
+  'issuingCountry',
+  'issueDate',
+  'expiryDate',
+] as const;
+
+export type CorrectableField = (typeof CORRECTABLE_FIELDS)[number];
+
+export class ManualCorrections {
+  /**
+   * Applies reviewer corrections to extracted data. Corrected fields become
+   * manually sourced with full confidence, and keep the OCR reading they
+   * replaced in `original`. Setting a field back to its OCR value restores
+   * the OCR reading. An empty value marks the field as not found.
+   */
+  static apply(data: ExtractedData, corrections: FieldCorrections, now: Date = new Date()): ExtractedData {
+    const corrected: ExtractedData = { ...data };
+
+    for (const [name, value] of Object.entries(corrections)) {
+      const field = name as CorrectableField;
+      const previous: ExtractedField | undefined = data[field];
+      const original = previous?.original || {
+        value: previous?.value || '',
+        confidence: previous?.confidence || 0,
+        found: previous?.found || false,
+        ...(previous?.source ? { source: previous.source } : {}),
+        correctedAt: now.toISOString(),
+      };
+
+      if (previous?.original && value === original.value) {
+        const { correctedAt, ...reading } = original;
+        corrected[field] = { ...reading, ...(previous.location ? { location: previous.location } : {}) };
+        continue;
+      }
+
+      corrected[field] = {
+        value,
+        confidence: value ? 100 : 0,
+        found: value !== '',
+        source: 'manual',
+        ...(previous?.location ? { location: previous.location } : {}),
+        original,
+      };
+    }
+
+    // A reviewer's value settles any disagreement between images.
+    if (data.sideConflicts) {
+      corrected.sideConflicts = data.sideConflicts.filter(conflict => !(conflict.field in corrections));
+    }
+
+    return corrected;
+  }
+}
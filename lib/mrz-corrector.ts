@@ -0,0 +1,244 @@
+import { MRZCorrection } from './types';
+import { MRZFormat, MRZValidator } from './mrz-validator';
+
+type CharClass = 'numeric' | 'alpha' | 'alnum';
+
+interface FieldSpec {
+  field: string;
+  line: number;
+  start: number;
+  end: number;
+  kind: CharClass;
+}
+
+interface CheckDigitSpec {
+  ranges: Array<[line: number, start: number, end: number]>;
+  digit: [line: number, position: number];
+}
+
+interface FormatLayout {
+  fields: FieldSpec[];
+  checkDigits: CheckDigitSpec[];
+}
+
+// No K -> < here: turning a misread check digit into filler would skip the
+// check instead of repairing it, so unmapped characters are left to fail.
+const TO_DIGIT: { [char: string]: string } = { O: '0', I: '1', B: '8', S: '5', Z: '2' };
+const TO_LETTER: { [char: string]: string } = { '0': 'O', '1': 'I', '8': 'B', '5': 'S', '2': 'Z' };
+// Alphanumeric fields end in filler, so a K there may be a misread <; the
+// check digits decide.
+const ALNUM_ALTERNATIVES: { [char: string]: string } = { ...TO_DIGIT, ...TO_LETTER, K: '<' };
+
+const MAX_AMBIGUOUS_POSITIONS = 12;
+
+function twoLineLayout(length: number, tail: FieldSpec[], tailChecks: CheckDigitSpec[]): FormatLayout {
+  return {
+    fields: [
+      { field: 'Document type', line: 0, start: 0, end: 2, kind: 'alpha' },
+      { field: 'Issuing country', line: 0, start: 2, end: 5, kind: 'alpha' },
+      { field: 'Name', line: 0, start: 5, end: length, kind: 'alpha' },
+      { field: 'Document number', line: 1, start: 0, end: 9, kind: 'alnum' },
+      { field: 'Document number check digit', line: 1, start: 9, end: 10, kind: 'numeric' },
+      { field: 'Nationality', line: 1, start: 10, end: 13, kind: 'alpha' },
+      { field: 'Date of birth', line: 1, start: 13, end: 20, kind: 'numeric' },
+      { field: 'Expiry date', line: 1, start: 21, end: 28, kind: 'numeric' },
+      ...tail,
+    ],
+    checkDigits: [
+      { ranges: [[1, 0, 9]], digit: [1, 9] },
+      { ranges: [[1, 13, 19]], digit: [1, 19] },
+      { ranges: [[1, 21, 27]], digit: [1, 27] },
+      ...tailChecks,
+    ],
+  };
+}
+
+const LAYOUTS: { [key in MRZFormat]: FormatLayout } = {
+  TD1: {
+    fields: [
+      { field: 'Document type', line: 0, start: 0, end: 2, kind: 'alpha' },
+      { field: 'Issuing country', line: 0, start: 2, end: 5, kind: 'alpha' },
+      { field: 'Document number', line: 0, start: 5, end: 14, kind: 'alnum' },
+      { field: 'Document number check digit', line: 0, start: 14, end: 15, kind: 'numeric' },
+      { field: 'Optional data', line: 0, start: 15, end: 30, kind: 'alnum' },
+      { field: 'Date of birth', line: 1, start: 0, end: 7, kind: 'numeric' },
+      { field: 'Expiry date', line: 1, start: 8, end: 15, kind: 'numeric' },
+      { field: 'Nationality', line: 1, start: 15, end: 18, kind: 'alpha' },
+      { field: 'Optional data', line: 1, start: 18, end: 29, kind: 'alnum' },
+      { field: 'Composite check digit', line: 1, start: 29, end: 30, kind: 'numeric' },
+      { field: 'Name', line: 2, start: 0, end: 30, kind: 'alpha' },
+    ],
+    checkDigits: [
+      { ranges: [[0, 5, 14]], digit: [0, 14] },
+      { ranges: [[1, 0, 6]], digit: [1, 6] },
+      { ranges: [[1, 8, 14]], digit: [1, 14] },
+      { ranges: [[0, 5, 30], [1, 0, 7], [1, 8, 15], [1, 18, 29]], digit: [1, 29] },
+    ],
+  },
+  TD2: twoLineLayout(
+    36,
+    [
+      { field: 'Optional data', line: 1, start: 28, end: 35, kind: 'alnum' },
+      { field: 'Composite check digit', line: 1, start: 35, end: 36, kind: 'numeric' },
+    ],
+    [{ ranges: [[1, 0, 10], [1, 13, 20], [1, 21, 35]], digit: [1, 35] }]
+  ),
+  TD3: twoLineLayout(
+    44,
+    [
+      { field: 'Personal number', line: 1, start: 28, end: 42, kind: 'alnum' },
+      { field: 'Personal number check digit', line: 1, start: 42, end: 43, kind: 'numeric' },
+      { field: 'Composite check digit', line: 1, start: 43, end: 44, kind: 'numeric' },
+    ],
+    [
+      { ranges: [[1, 28, 42]], digit: [1, 42] },
+      { ranges: [[1, 0, 10], [1, 13, 20], [1, 21, 43]], digit: [1, 43] },
+    ]
+  ),
+  MRVA: twoLineLayout(44, [{ field: 'Optional data', line: 1, start: 28, end: 44, kind: 'alnum' }], []),
+  MRVB: twoLineLayout(36, [{ field: 'Optional data', line: 1, start: 28, end: 36, kind: 'alnum' }], []),
+};
+
+export class MRZCorrector {
+  /**
+   * Repairs characters Tesseract commonly confuses in the MRZ. Positions that
+   * ICAO 9303 restricts to digits or letters are substituted directly;
+   * alphanumeric positions are only changed when a single smallest set of
+   * substitutions satisfies every check digit.
+   */
+  static correct(mrzLines: string[]): { lines: string[]; corrections: MRZCorrection[] } {
+    const format = MRZValidator.detectFormat(mrzLines);
+    if (!format) {
+      return { lines: mrzLines, corrections: [] };
+    }
+
+    const layout = LAYOUTS[format];
+    const lines = mrzLines.map(line => line.split(''));
+    const corrections: MRZCorrection[] = [];
+    const ambiguous: Array<{ spec: FieldSpec; line: number; position: number }> = [];
+
+    for (const spec of layout.fields) {
+      const chars = lines[spec.line];
+      if (!chars) continue;
+
+      for (let pos = spec.start; pos < Math.min(spec.end, chars.length); pos++) {
+        const char = chars[pos];
+        let replacement: string | undefined;
+
+        if (spec.kind === 'numeric' && !/[0-9<]/.test(char)) {
+          replacement = TO_DIGIT[char];
+        } else if (spec.kind === 'alpha' && !/[A-Z<]/.test(char)) {
+          replacement = TO_LETTER[char];
+        } else if (spec.kind === 'alnum' && ALNUM_ALTERNATIVES[char] && this.isCheckDigitCovered(layout, spec.line, pos)) {
+          ambiguous.push({ spec, line: spec.line, position: pos });
+        }
+
+        if (replacement) {
+          corrections.push({ field: spec.field, line: spec.line + 1, position: pos + 1, from: char, to: replacement });
+          chars[pos] = replacement;
+        }
+      }
+
+      if (spec.field === 'Name') {
+        this.correctNameFiller(chars, spec, corrections);
+      }
+    }
+
+    if (ambiguous.length > 0 && ambiguous.length <= MAX_AMBIGUOUS_POSITIONS) {
+      this.resolveAmbiguous(layout, lines, ambiguous, corrections);
+    }
+
+    return { lines: lines.map(chars => chars.join('')), corrections };
+  }
+
+  private static isCheckDigitCovered(layout: FormatLayout, line: number, position: number): boolean {
+    return layout.checkDigits.some(check =>
+      check.ranges.some(([l, start, end]) => l === line && position >= start && position < end)
+    );
+  }
+
+  /**
+   * K characters inside the trailing filler of the name field are misread <.
+   * A K directly after the last letter may end a genuine name, so it is kept.
+   */
+  private static correctNameFiller(chars: string[], spec: FieldSpec, corrections: MRZCorrection[]) {
+    const end = Math.min(spec.end, chars.length);
+    let start = end;
+    while (start > spec.start && (chars[start - 1] === '<' || chars[start - 1] === 'K')) {
+      start--;
+    }
+    while (start < end && chars[start] === 'K') {
+      start++;
+    }
+
+    const run = chars.slice(start, end).join('');
+    if (!run.includes('<<')) return;
+
+    for (let pos = start; pos < end; pos++) {
+      if (chars[pos] === 'K') {
+        corrections.push({ field: spec.field, line: spec.line + 1, position: pos + 1, from: 'K', to: '<' });
+        chars[pos] = '<';
+      }
+    }
+  }
+
+  private static resolveAmbiguous(
+    layout: FormatLayout,
+    lines: string[][],
+    ambiguous: Array<{ spec: FieldSpec; line: number; position: number }>,
+    corrections: MRZCorrection[]
+  ) {
+    if (this.satisfiesCheckDigits(layout, lines)) return;
+
+    let solution: number | null = null;
+    let solutionChanges = Infinity;
+    let tied = false;
+
+    for (let mask = 1; mask < 1 << ambiguous.length; mask++) {
+      const changes = this.countBits(mask);
+      if (changes > solutionChanges) continue;
+
+      const candidate = lines.map(chars => [...chars]);
+      ambiguous.forEach(({ line, position }, i) => {
+        if (mask & (1 << i)) {
+          candidate[line][position] = ALNUM_ALTERNATIVES[candidate[line][position]];
+        }
+      });
+
+      if (this.satisfiesCheckDigits(layout, candidate)) {
+        tied = changes === solutionChanges;
+        solution = mask;
+        solutionChanges = changes;
+      }
+    }
+
+    if (tied) return;
+    if (solution === null) return;
+
+    ambiguous.forEach(({ spec, line, position }, i) => {
+      if (solution! & (1 << i)) {
+        const from = lines[line][position];
+        const to = ALNUM_ALTERNATIVES[from];
+        corrections.push({ field: spec.field, line: line + 1, position: position + 1, from, to });
+        lines[line][position] = to;
+      }
+    });
+  }
+
+  private static countBits(mask: number): number {
+    let count = 0;
+    for (let m = mask; m; m &= m - 1) count++;
+    return count;
+  }
+
+  private static satisfiesCheckDigits(layout: FormatLayout, lines: string[][]): boolean {
+    return layout.checkDigits.every(check => {
+      const [digitLine, digitPos] = check.digit;
+      const checkChar = lines[digitLine]?.[digitPos];
+      if (checkChar === undefined || checkChar === '<') return true;
+
+      const data = check.ranges.map(([line, start, end]) => lines[line].slice(start, end).join('')).join('');
+      return MRZValidator.calculateCheckDigit(data) === parseInt(checkChar);
+    });
+  }
+}
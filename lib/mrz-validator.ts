@@ -1,3 +1,45 @@
+import { DateKind, PartialDates } from './partial-date';
+
+export type MRZFormat = 'TD1' | 'TD2' | 'TD3' | 'MRVA' | 'MRVB';
+
+const LINE_LENGTHS: { [key in MRZFormat]: number } = {
+  TD1: 30,
+  TD2: 36,
+  TD3: 44,
+  MRVA: 44,
+  MRVB: 36,
+};
+
+/**
+ * Fields parsed from the MRZ. Fields the format does not carry are left
+ * undefined and filler characters are stripped from optional data.
+ */
+export interface ParsedMRZ {
+  format?: MRZFormat;
+  documentType?: string;
+  issuingCountry?: string;
+  documentNumber?: string;
+  nationality?: string;
+  dateOfBirth?: string;
+  sex?: string;
+  expiryDate?: string;
+  surname?: string;
+  givenNames?: string;
+  /** TD3 personal number, protected by its own check digit. */
+  personalNumber?: string;
+  /** Optional data on line 2 (TD2, visas) or line 1 (TD1). */
+  optionalData?: string;
+  /** TD1 optional data on line 2. */
+  optionalData2?: string;
+}
+
+export interface MRZValidationResult {
+  valid: boolean;
+  errors: string[];
+  parsedData: ParsedMRZ;
+  checkDigits: { [field: string]: boolean };
+}
+
 export class MRZValidator {
   private static readonly WEIGHTS = [7, 3, 1];
 
@@ -8,7 +50,7 @@ export class MRZValidator {
     return 0;
   }
 
-  private static calculateCheckDigit(data: string): number {
+  static calculateCheckDigit(data: string): number {
     let sum = 0;
     for (let i = 0; i < data.length; i++) {
       sum += this.charValue(data[i]) * this.WEIGHTS[i % 3];
@@ -16,151 +58,275 @@ export class MRZValidator {
     return sum % 10;
   }
 
-  static validateMRZ(mrzLines: string[]): {
-    valid: boolean;
-    errors: string[];
-    parsedData: any;
-  } {
+  static detectFormat(mrzLines: string[]): MRZFormat | null {
+    if (mrzLines.length === 3) return 'TD1';
+    if (mrzLines.length !== 2) return null;
+
+    const isVisa = mrzLines[0][0] === 'V';
+    const length = Math.max(mrzLines[0].length, mrzLines[1].length);
+
+    if (length === 44) return isVisa ? 'MRVA' : 'TD3';
+    if (length === 36) return isVisa ? 'MRVB' : 'TD2';
+    return null;
+  }
+
+  /**
+   * Whether the name field runs to the end of its line with no filler: only
+   * then may the names in it have been truncated to fit.
+   */
+  static nameFieldFull(mrzLines: string[]): boolean {
+    const format = this.detectFormat(mrzLines);
+    if (!format) return false;
+    const line = format === 'TD1' ? mrzLines[2] : mrzLines[0];
+    return line.length === LINE_LENGTHS[format] && /[A-Z]$/.test(line);
+  }
+
+  static validateMRZ(mrzLines: string[]): MRZValidationResult {
     const errors: string[] = [];
-    const parsedData: any = {};
+    const parsedData: ParsedMRZ = {};
+    const checkDigits: { [field: string]: boolean } = {};
 
-    if (mrzLines.length === 2) {
-      return this.validateTD3(mrzLines, errors, parsedData);
-    } else if (mrzLines.length === 3) {
-      return this.validateTD1(mrzLines, errors, parsedData);
+    const format = this.detectFormat(mrzLines);
+    if (!format) {
+      errors.push('Invalid MRZ format - expected 3x30, 2x36 or 2x44 characters');
+      return { valid: false, errors, parsedData, checkDigits };
     }
 
-    errors.push('Invalid MRZ format - expected 2 or 3 lines');
-    return { valid: false, errors, parsedData };
+    parsedData.format = format;
+    this.checkLineLengths(mrzLines, LINE_LENGTHS[format], errors);
+
+    switch (format) {
+      case 'TD1':
+        return this.validateTD1(mrzLines, errors, parsedData, checkDigits);
+      case 'TD2':
+        return this.validateTD2(mrzLines, errors, parsedData, checkDigits);
+      case 'TD3':
+        return this.validateTD3(mrzLines, errors, parsedData, checkDigits);
+      case 'MRVA':
+      case 'MRVB':
+        return this.validateVisa(mrzLines, errors, parsedData, checkDigits);
+    }
   }
 
-  private static validateTD3(
-    mrzLines: string[],
+  private static checkLineLengths(mrzLines: string[], expected: number, errors: string[]) {
+    mrzLines.forEach((line, i) => {
+      if (line.length !== expected) {
+        errors.push(`Line ${i + 1} length invalid: ${line.length}, expected ${expected}`);
+      }
+    });
+  }
+
+  private static verifyCheckDigit(
+    data: string,
+    checkChar: string | undefined,
+    field: string,
+    label: string,
     errors: string[],
-    parsedData: any
-  ): { valid: boolean; errors: string[]; parsedData: any } {
-    const line1 = mrzLines[0];
-    const line2 = mrzLines[1];
+    checkDigits: { [field: string]: boolean }
+  ) {
+    if (checkChar === undefined || checkChar === '<') return;
 
-    if (line1.length !== 44) errors.push(`Line 1 length invalid: ${line1.length}, expected 44`);
-    if (line2.length !== 44) errors.push(`Line 2 length invalid: ${line2.length}, expected 44`);
+    const calc = this.calculateCheckDigit(data);
+    checkDigits[field] = parseInt(checkChar) === calc;
+    if (!checkDigits[field]) {
+      errors.push(`${label} check digit failed: expected ${calc}, got ${checkChar}`);
+    }
+  }
+
+  private static parseNames(nameField: string, parsedData: ParsedMRZ) {
+    const names = nameField.split('<<');
+    parsedData.surname = names[0]?.replace(/</g, ' ').trim() || '';
+    parsedData.givenNames = names[1]?.replace(/</g, ' ').trim() || '';
+  }
 
+  private static parseHeaderLine(line1: string, parsedData: ParsedMRZ) {
     parsedData.documentType = line1.substring(0, 2).replace(/</g, '');
     parsedData.issuingCountry = line1.substring(2, 5).replace(/</g, '');
-    parsedData.surname = line1.substring(5, 44).split('<<')[0].replace(/</g, ' ').trim();
-    parsedData.givenNames = line1.substring(5, 44).split('<<')[1]?.replace(/</g, ' ').trim() || '';
+    this.parseNames(line1.substring(5), parsedData);
+  }
 
+  /**
+   * TD2, TD3 and both visa formats share the same line 2 layout up to the
+   * expiry check digit at position 27; only the optional data and composite
+   * digit that follow differ.
+   */
+  private static parseDataLine(
+    line2: string,
+    errors: string[],
+    parsedData: ParsedMRZ,
+    checkDigits: { [field: string]: boolean }
+  ) {
     parsedData.documentNumber = line2.substring(0, 9).replace(/</g, '');
-    const docNumCheck = line2[9];
-    const docNumCalc = this.calculateCheckDigit(line2.substring(0, 9));
-    if (docNumCheck !== '<' && parseInt(docNumCheck) !== docNumCalc) {
-      errors.push(`Document number check digit failed: expected ${docNumCalc}, got ${docNumCheck}`);
-    }
+    this.verifyCheckDigit(line2.substring(0, 9), line2[9], 'documentNumber', 'Document number', errors, checkDigits);
 
     parsedData.nationality = line2.substring(10, 13).replace(/</g, '');
 
     const dobStr = line2.substring(13, 19);
-    parsedData.dateOfBirth = this.parseMRZDate(dobStr);
-    const dobCheck = line2[19];
-    const dobCalc = this.calculateCheckDigit(dobStr);
-    if (dobCheck !== '<' && parseInt(dobCheck) !== dobCalc) {
-      errors.push(`Date of birth check digit failed: expected ${dobCalc}, got ${dobCheck}`);
-    }
+    parsedData.dateOfBirth = this.parseMRZDate(dobStr, 'birth', 'Date of birth', errors);
+    this.verifyCheckDigit(dobStr, line2[19], 'dateOfBirth', 'Date of birth', errors, checkDigits);
 
     parsedData.sex = line2[20];
 
     const expStr = line2.substring(21, 27);
-    parsedData.expiryDate = this.parseMRZDate(expStr);
-    const expCheck = line2[27];
-    const expCalc = this.calculateCheckDigit(expStr);
-    if (expCheck !== '<' && parseInt(expCheck) !== expCalc) {
-      errors.push(`Expiry date check digit failed: expected ${expCalc}, got ${expCheck}`);
-    }
+    parsedData.expiryDate = this.parseMRZDate(expStr, 'expiry', 'Expiry date', errors);
+    this.verifyCheckDigit(expStr, line2[27], 'expiryDate', 'Expiry date', errors, checkDigits);
+  }
+
+  private static validateTD3(
+    mrzLines: string[],
+    errors: string[],
+    parsedData: ParsedMRZ,
+    checkDigits: { [field: string]: boolean }
+  ): MRZValidationResult {
+    const line1 = mrzLines[0];
+    const line2 = mrzLines[1];
+
+    this.parseHeaderLine(line1.substring(0, 44), parsedData);
+    this.parseDataLine(line2, errors, parsedData, checkDigits);
 
     const personalNum = line2.substring(28, 42);
-    const personalNumCheck = line2[42];
-    if (personalNum.replace(/</g, '')) {
-      const personalNumCalc = this.calculateCheckDigit(personalNum);
-      if (personalNumCheck !== '<' && parseInt(personalNumCheck) !== personalNumCalc) {
-        errors.push(`Personal number check digit failed: expected ${personalNumCalc}, got ${personalNumCheck}`);
-      }
+    parsedData.personalNumber = personalNum.replace(/</g, '');
+    if (parsedData.personalNumber) {
+      this.verifyCheckDigit(personalNum, line2[42], 'personalNumber', 'Personal number', errors, checkDigits);
     }
 
     const compositeStr = line2.substring(0, 10) + line2.substring(13, 20) + line2.substring(21, 43);
-    const compositeCheck = line2[43];
-    const compositeCalc = this.calculateCheckDigit(compositeStr);
-    if (compositeCheck !== '<' && parseInt(compositeCheck) !== compositeCalc) {
-      errors.push(`Composite check digit failed: expected ${compositeCalc}, got ${compositeCheck}`);
-    }
+    this.verifyCheckDigit(compositeStr, line2[43], 'composite', 'Composite', errors, checkDigits);
 
     return {
       valid: errors.length === 0,
       errors,
       parsedData,
+      checkDigits,
     };
   }
 
+  private static validateTD2(
+    mrzLines: string[],
+    errors: string[],
+    parsedData: ParsedMRZ,
+    checkDigits: { [field: string]: boolean }
+  ): MRZValidationResult {
+    const line1 = mrzLines[0];
+    const line2 = mrzLines[1];
+
+    this.parseHeaderLine(line1.substring(0, 36), parsedData);
+    this.parseDataLine(line2, errors, parsedData, checkDigits);
+
+    parsedData.optionalData = line2.substring(28, 35).replace(/</g, '');
+
+    const compositeStr = line2.substring(0, 10) + line2.substring(13, 20) + line2.substring(21, 35);
+    this.verifyCheckDigit(compositeStr, line2[35], 'composite', 'Composite', errors, checkDigits);
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      parsedData,
+      checkDigits,
+    };
+  }
+
+  /**
+   * MRV-A and MRV-B visas carry no composite check digit and their optional
+   * data is free-form, so only the three field check digits are verified.
+   */
+  private static validateVisa(
+    mrzLines: string[],
+    errors: string[],
+    parsedData: ParsedMRZ,
+    checkDigits: { [field: string]: boolean }
+  ): MRZValidationResult {
+    const line1 = mrzLines[0];
+    const line2 = mrzLines[1];
+    const length = LINE_LENGTHS[parsedData.format!];
+
+    this.parseHeaderLine(line1.substring(0, length), parsedData);
+    this.parseDataLine(line2, errors, parsedData, checkDigits);
+
+    parsedData.optionalData = line2.substring(28, length).replace(/</g, '');
+
+    return {
+      valid: errors.length === 0,
+      errors,
+      parsedData,
+      checkDigits,
+    };
+  }
+
+  /**
+   * TD1 cards put the document number on line 1. Numbers longer than nine
+   * characters continue in the optional data field: the check digit position
+   * holds '<' and the overflow is followed by the check digit for the whole
+   * number, then any remaining optional data.
+   */
   private static validateTD1(
     mrzLines: string[],
     errors: string[],
-    parsedData: any
-  ): { valid: boolean; errors: string[]; parsedData: any } {
+    parsedData: ParsedMRZ,
+    checkDigits: { [field: string]: boolean }
+  ): MRZValidationResult {
     const line1 = mrzLines[0];
     const line2 = mrzLines[1];
     const line3 = mrzLines[2];
 
-    if (line1.length !== 30) errors.push(`Line 1 length invalid: ${line1.length}, expected 30`);
-    if (line2.length !== 30) errors.push(`Line 2 length invalid: ${line2.length}, expected 30`);
-    if (line3.length !== 30) errors.push(`Line 3 length invalid: ${line3.length}, expected 30`);
-
     parsedData.documentType = line1.substring(0, 2).replace(/</g, '');
     parsedData.issuingCountry = line1.substring(2, 5).replace(/</g, '');
-    parsedData.documentNumber = line1.substring(5, 14).replace(/</g, '');
 
-    const docNumCheck = line1[14];
-    const docNumCalc = this.calculateCheckDigit(line1.substring(5, 14));
-    if (docNumCheck !== '<' && parseInt(docNumCheck) !== docNumCalc) {
-      errors.push(`Document number check digit failed`);
+    const optional1 = line1.substring(15, 30);
+    if (line1[14] === '<' && optional1[0] && optional1[0] !== '<') {
+      const overflowEnd = optional1.indexOf('<') >= 0 ? optional1.indexOf('<') : optional1.length;
+      const overflow = optional1.substring(0, overflowEnd);
+      const documentNumber = line1.substring(5, 14) + overflow.slice(0, -1);
+
+      parsedData.documentNumber = documentNumber.replace(/</g, '');
+      parsedData.optionalData = optional1.substring(overflowEnd).replace(/</g, '');
+      if (overflow.length < 2) {
+        errors.push('Document number check digit missing from optional data');
+      } else {
+        this.verifyCheckDigit(documentNumber, overflow.slice(-1), 'documentNumber', 'Document number', errors, checkDigits);
+      }
+    } else {
+      parsedData.documentNumber = line1.substring(5, 14).replace(/</g, '');
+      parsedData.optionalData = optional1.replace(/</g, '');
+      this.verifyCheckDigit(line1.substring(5, 14), line1[14], 'documentNumber', 'Document number', errors, checkDigits);
     }
 
     const dobStr = line2.substring(0, 6);
-    parsedData.dateOfBirth = this.parseMRZDate(dobStr);
-    const dobCheck = line2[6];
-    const dobCalc = this.calculateCheckDigit(dobStr);
-    if (dobCheck !== '<' && parseInt(dobCheck) !== dobCalc) {
-      errors.push(`Date of birth check digit failed`);
-    }
+    parsedData.dateOfBirth = this.parseMRZDate(dobStr, 'birth', 'Date of birth', errors);
+    this.verifyCheckDigit(dobStr, line2[6], 'dateOfBirth', 'Date of birth', errors, checkDigits);
 
     parsedData.sex = line2[7];
 
     const expStr = line2.substring(8, 14);
-    parsedData.expiryDate = this.parseMRZDate(expStr);
-    const expCheck = line2[14];
-    const expCalc = this.calculateCheckDigit(expStr);
-    if (expCheck !== '<' && parseInt(expCheck) !== expCalc) {
-      errors.push(`Expiry date check digit failed`);
-    }
+    parsedData.expiryDate = this.parseMRZDate(expStr, 'expiry', 'Expiry date', errors);
+    this.verifyCheckDigit(expStr, line2[14], 'expiryDate', 'Expiry date', errors, checkDigits);
 
     parsedData.nationality = line2.substring(15, 18).replace(/</g, '');
+    parsedData.optionalData2 = line2.substring(18, 29).replace(/</g, '');
 
-    const names = line3.substring(0, 30).split('<<');
-    parsedData.surname = names[0]?.replace(/</g, ' ').trim() || '';
-    parsedData.givenNames = names[1]?.replace(/</g, ' ').trim() || '';
+    const compositeStr = line1.substring(5, 30) + line2.substring(0, 7) + line2.substring(8, 15) + line2.substring(18, 29);
+    this.verifyCheckDigit(compositeStr, line2[29], 'composite', 'Composite', errors, checkDigits);
+
+    this.parseNames(line3.substring(0, 30), parsedData);
 
     return {
       valid: errors.length === 0,
       errors,
       parsedData,
+      checkDigits,
     };
   }
 
-  private static parseMRZDate(mrzDate: string): string {
-    if (mrzDate.length !== 6) return '';
-    const year = parseInt(mrzDate.substring(0, 2));
-    const month = mrzDate.substring(2, 4);
-    const day = mrzDate.substring(4, 6);
-
-    const fullYear = year > 50 ? 1900 + year : 2000 + year;
-    return `${fullYear}-${month}-${day}`;
+  /**
+   * Converts a YYMMDD field to YYYY-MM-DD, writing an unknown month or day as
+   * XX. Impossible calendar dates are reported and yield an empty value.
+   */
+  private static parseMRZDate(mrzDate: string, kind: DateKind, label: string, errors: string[]): string {
+    const date = PartialDates.fromMRZ(mrzDate, kind);
+    if (!date) {
+      errors.push(`${label} is not a valid date: ${mrzDate}`);
+      return '';
+    }
+    return PartialDates.format(date);
   }
 }
@@ -0,0 +1,210 @@
+import { Transliteration } from './transliteration';
+import { NameMatchGrade } from './types';
+
+export interface NameMatchResult {
+  grade: NameMatchGrade;
+  score: number;
+  explanation: string;
+}
+
+interface TokenPair {
+  document: number;
+  applicant: number;
+  similarity: number;
+}
+
+export const NAME_MATCH_GRADES: NameMatchGrade[] = ['exact', 'strong', 'weak', 'mismatch'];
+
+const TRUNCATION_SIMILARITY = 0.95;
+const TOKEN_THRESHOLD = 0.75;
+const STRONG_SCORE = 0.85;
+const WEAK_SCORE = 0.6;
+const OMISSION_PENALTY = 0.05;
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Applicants often give initials, so a single letter nearly matches a token
+ * it starts. A document token that may have been cut off at the end of a
+ * full MRZ name field nearly matches any token it starts. Any other pair is
+ * scored by edit distance.
+ */
+function tokenSimilarity(documentToken: string, applicantToken: string, truncated: boolean): number {
+  if (documentToken === applicantToken) return 1;
+  const initial =
+    (documentToken.length === 1 && applicantToken.startsWith(documentToken)) ||
+    (applicantToken.length === 1 && documentToken.startsWith(applicantToken));
+  if (initial || (truncated && applicantToken.startsWith(documentToken))) return TRUNCATION_SIMILARITY;
+  return 1 - levenshtein(documentToken, applicantToken) / Math.max(documentToken.length, applicantToken.length);
+}
+
+function tokens(name: string): string[] {
+  return name ? name.split(' ').filter(Boolean) : [];
+}
+
+export class NameMatcher {
+  /**
+   * Grades how well an applicant's name matches the name on a document.
+   * Both are transliterated with the ICAO 9303 tables, split into tokens
+   * and paired regardless of order; paired tokens are scored by edit
+   * distance, tolerating initials and omitted middle names. Pass
+   * `nameFieldFull` when the names come from an MRZ whose name field is
+   * filled to the end, so its last name may have been truncated.
+   */
+  static match(surname: string, givenNames: string, applicantName: string, nameFieldFull = false): NameMatchResult {
+    let best: NameMatchResult | null = null;
+
+    for (const surnameVariant of Transliteration.mrzVariants(surname)) {
+      for (const givenVariant of Transliteration.mrzVariants(givenNames)) {
+        for (const applicantVariant of Transliteration.mrzVariants(applicantName)) {
+          const result = this.grade(
+            tokens(surnameVariant),
+            tokens(givenVariant),
+            tokens(applicantVariant),
+            nameFieldFull
+          );
+          if (
+            !best ||
+            NAME_MATCH_GRADES.indexOf(result.grade) < NAME_MATCH_GRADES.indexOf(best.grade) ||
+            (result.grade === best.grade && result.score > best.score)
+          ) {
+            best = result;
+          }
+        }
+      }
+    }
+
+    return best!;
+  }
+
+  /**
+   * True when a grade is at least as good as the minimum the policy accepts.
+   */
+  static meetsGrade(grade: NameMatchGrade, minimum: NameMatchGrade): boolean {
+    return NAME_MATCH_GRADES.indexOf(grade) <= NAME_MATCH_GRADES.indexOf(minimum);
+  }
+
+  private static grade(
+    surname: string[],
+    givenNames: string[],
+    applicant: string[],
+    nameFieldFull: boolean
+  ): NameMatchResult {
+    const document = [...givenNames, ...surname];
+    if (document.length === 0 || applicant.length === 0) {
+      return { grade: 'mismatch', score: 0, explanation: 'Name missing from document or application' };
+    }
+
+    // The MRZ name field ends with the last given name, or with the surname
+    // when there are none.
+    const lastInField = givenNames.length > 0 ? givenNames.length - 1 : document.length - 1;
+    const pairs = this.pairTokens(document, applicant, nameFieldFull ? lastInField : -1);
+    const extraDocument = document.length - pairs.length;
+    const extraApplicant = applicant.length - pairs.length;
+    const meanSimilarity = pairs.length > 0 ? pairs.reduce((sum, pair) => sum + pair.similarity, 0) / pairs.length : 0;
+    const score = Math.max(0, meanSimilarity - (extraDocument + extraApplicant) * OMISSION_PENALTY);
+    const rounded = Math.round(score * 100) / 100;
+
+    const exact =
+      pairs.length === document.length &&
+      pairs.length === applicant.length &&
+      pairs.every(pair => pair.similarity === 1);
+    if (exact) {
+      const reordered = this.isReordered(pairs);
+      return {
+        grade: 'exact',
+        score: 1,
+        explanation: reordered ? 'All name parts match (in a different order)' : 'All name parts match',
+      };
+    }
+
+    const surnameStart = givenNames.length;
+    const unmatchedSurname = surname.filter((_, i) => !pairs.some(pair => pair.document === surnameStart + i));
+    const givenMatched = pairs.some(pair => pair.document < surnameStart);
+
+    const notes: string[] = [];
+    if (this.isReordered(pairs)) notes.push('name order differs');
+    if (pairs.some(pair => pair.similarity === TRUNCATION_SIMILARITY)) notes.push('truncated name or initial');
+    if (pairs.some(pair => pair.similarity < TRUNCATION_SIMILARITY)) {
+      const misspelt = pairs
+        .filter(pair => pair.similarity < TRUNCATION_SIMILARITY)
+        .map(pair => `${document[pair.document]} vs ${applicant[pair.applicant]}`);
+      notes.push(`spelling differs (${misspelt.join(', ')})`);
+    }
+
+    if (extraDocument > 0) notes.push(`${extraDocument} document name part(s) not given by applicant`);
+    if (extraApplicant > 0) notes.push(`${extraApplicant} applicant name part(s) not on document`);
+
+    if (unmatchedSurname.length > 0) {
+      notes.unshift(`surname ${unmatchedSurname.join(' ')} not found in applicant name`);
+    } else if (givenNames.length > 0 && !givenMatched) {
+      notes.unshift('given names do not match');
+    }
+
+    const explanation = this.capitalise(notes.join('; '));
+    const givenOk = givenMatched || givenNames.length === 0;
+    const onlyOmissions = extraDocument === 0 || extraApplicant === 0;
+    if (unmatchedSurname.length === 0 && givenOk && onlyOmissions && score >= STRONG_SCORE) {
+      return { grade: 'strong', score: rounded, explanation };
+    }
+    if (unmatchedSurname.length < surname.length && givenOk && score >= WEAK_SCORE) {
+      return { grade: 'weak', score: rounded, explanation };
+    }
+
+    const coverage = pairs.reduce((sum, pair) => sum + pair.similarity, 0) / Math.max(document.length, applicant.length);
+    return {
+      grade: 'mismatch',
+      score: Math.round(coverage * 100) / 100,
+      explanation,
+    };
+  }
+
+  /**
+   * Pairs each document token with at most one applicant token, taking the
+   * most similar pairs first. `truncatedToken` is the index of the document
+   * token that may have been cut off, or -1.
+   */
+  private static pairTokens(document: string[], applicant: string[], truncatedToken: number): TokenPair[] {
+    const candidates: TokenPair[] = [];
+    document.forEach((docToken, i) => {
+      applicant.forEach((appToken, j) => {
+        const similarity = tokenSimilarity(docToken, appToken, i === truncatedToken);
+        if (similarity >= TOKEN_THRESHOLD) {
+          candidates.push({ document: i, applicant: j, similarity });
+        }
+      });
+    });
+    candidates.sort((a, b) => b.similarity - a.similarity);
+
+    const pairs: TokenPair[] = [];
+    for (const candidate of candidates) {
+      if (!pairs.some(pair => pair.document === candidate.document || pair.applicant === candidate.applicant)) {
+        pairs.push(candidate);
+      }
+    }
+    return pairs;
+  }
+
+  private static isReordered(pairs: TokenPair[]): boolean {
+    const ordered = [...pairs].sort((a, b) => a.document - b.document);
+    return ordered.some((pair, i) => i > 0 && pair.applicant < ordered[i - 1].applicant);
+  }
+
+  private static capitalise(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+}
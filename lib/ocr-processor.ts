@@ -1,187 +1,446 @@
-import { createWorker, Worker } from 'tesseract.js';
-import { ExtractedData, ExtractedField } from './types';
-import { MRZValidator } from './mrz-validator';
+import { Bbox, Page, PSM, Worker } from 'tesseract.js';
+import { BoundingBox, DocumentImage, ExtractedData, ExtractedField, MRZCorrection, VisualZoneData } from './types';
+import { MRZValidationResult, MRZValidator } from './mrz-validator';
+import { MRZCorrector } from './mrz-corrector';
+import { ImagePreprocessor, PreprocessedImage } from './image-preprocessor';
+import { OCRWorkerPool } from './ocr-worker-pool';
+import { FieldConfidence, MRZField, MRZReading } from './field-confidence';
+import { FieldLocator } from './field-locator';
+import { CountryRegistry } from './country-registry';
+import { DateKind, PartialDates } from './partial-date';
+import { VIZDateParser } from './viz-date-parser';
+import { BarcodeReader } from './barcode-reader';
+import { AAMVAData, AAMVAParser } from './aamva-parser';
+import { COMPARABLE_FIELDS, ComparableField, VIZComparator } from './viz-comparator';
+import { DocumentMerger, SideReading } from './document-merger';
+import { PDFReader } from './pdf-reader';
+
+const MRZ_LINE_LENGTHS = [30, 36, 44];
+const MRZ_CHARSET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789<';
+const TEXT_LAYER_CONFIDENCE = 99;
+
+/**
+ * Country codes that are also common words on printed documents. They are
+ * only accepted when they appear on a labelled line.
+ */
+const AMBIGUOUS_COUNTRY_CODES = ['AND', 'ARE', 'BEN', 'CAN', 'COM', 'DOM', 'GUY', 'MAR', 'NOR', 'PAN', 'PER', 'SUR', 'TON'];
+
+interface TextMatch {
+  value: string;
+  source: string;
+}
+
+const NOT_FOUND: TextMatch = { value: '', source: '' };
 
 export class OCRProcessor {
-  private worker: Worker | null = null;
+  private worker: Worker | null;
+  private readonly ownsWorker: boolean;
+
+  constructor(worker?: Worker) {
+    this.worker = worker || null;
+    this.ownsWorker = !worker;
+  }
 
   async initialize() {
-    this.worker = await createWorker('eng');
+    if (!this.worker) {
+      this.worker = await OCRWorkerPool.createOfflineWorker();
+    }
   }
 
   async terminate() {
-    if (this.worker) {
+    if (this.worker && this.ownsWorker) {
       await this.worker.terminate();
+      this.worker = null;
+    }
+  }
+
+  /**
+   * Reads one uploaded image or PDF. The pages of a PDF are read separately
+   * and merged, with each field referring to the page it came from.
+   */
+  async processDocument(imageData: string | Buffer): Promise<ExtractedData> {
+    const input = this.toBuffer(imageData);
+    if (PDFReader.isPDF(input)) {
+      return DocumentMerger.merge(await this.readPDF(input));
+    }
+    return this.processImage(input);
+  }
+
+  /**
+   * Reads each labelled image of one document separately and merges the
+   * results, so an MRZ or barcode on the back fills in for the front.
+   */
+  async processDocuments(images: DocumentImage[]): Promise<ExtractedData> {
+    const readings: SideReading[] = [];
+    for (const image of images) {
+      const input = this.toBuffer(image.imageData);
+      if (PDFReader.isPDF(input)) {
+        const pages = await this.readPDF(input);
+        readings.push(...pages.map(page => ({ side: page.side || image.side, data: page.data })));
+      } else {
+        readings.push({ side: image.side, data: await this.processImage(input) });
+      }
+    }
+    return DocumentMerger.merge(readings);
+  }
+
+  private toBuffer(imageData: string | Buffer): Buffer {
+    return typeof imageData === 'string' ? ImagePreprocessor.decodeDataUrl(imageData) : imageData;
+  }
+
+  /**
+   * OCRs every page of a PDF. Pages carrying a visa MRZ are marked as visa
+   * pages when another page holds the passport itself, so the visa's own
+   * number and dates are not merged into the passport's.
+   */
+  private async readPDF(input: Buffer): Promise<SideReading[]> {
+    const readings: SideReading[] = [];
+    for (const page of await PDFReader.readPages(input)) {
+      readings.push({ data: await this.processImage(page.image, page.text) });
+    }
+
+    const isVisa = (data: ExtractedData) => data.documentType.source === 'mrz' && data.documentType.value.startsWith('V');
+    if (readings.some(reading => !isVisa(reading.data))) {
+      readings.forEach(reading => {
+        if (isVisa(reading.data)) reading.side = 'visaPage';
+      });
     }
+    return readings;
   }
 
-  async processDocument(imageData: string): Promise<ExtractedData> {
+  /**
+   * Reads one image. When it is a PDF page with an embedded text layer, the
+   * layer's MRZ is used if its check digits pass and its text replaces the
+   * OCR text for the visual zone.
+   */
+  private async processImage(input: Buffer, textLayer = ''): Promise<ExtractedData> {
     if (!this.worker) {
       await this.initialize();
     }
 
-    const base64Data = imageData.split(',')[1] || imageData;
-    const { data } = await this.worker!.recognize(base64Data);
-    const text = data.text;
+    const preprocessed = await this.preprocess(input);
 
-    const mrzLines = this.extractMRZ(text);
-    let parsedMRZ: any = null;
-    let mrzConfidence = 0;
+    const { data: page } = await this.worker!.recognize(preprocessed?.image || input);
 
-    if (mrzLines.length > 0) {
-      const mrzResult = MRZValidator.validateMRZ(mrzLines);
-      if (mrzResult.valid) {
-        parsedMRZ = mrzResult.parsedData;
-        mrzConfidence = 95;
-      } else {
-        mrzConfidence = 60;
-        parsedMRZ = mrzResult.parsedData;
-      }
+    let reading: MRZReading = preprocessed?.mrzBand
+      ? this.extractMRZ(await this.recognizeMRZBand(preprocessed.mrzBand), preprocessed.mrzBandTop)
+      : { lines: [], charConfidences: [], charBoxes: [] };
+    if (reading.lines.length === 0) {
+      reading = this.extractMRZ(page);
+    }
+
+    const textLayerReading = this.extractMRZFromText(textLayer);
+    if (textLayerReading.lines.length > 0 && MRZValidator.validateMRZ(textLayerReading.lines).valid) {
+      reading = textLayerReading;
     }
 
-    const extractedData = this.extractFields(text, parsedMRZ, mrzConfidence);
+    const { lines: mrzLines, corrections: mrzCorrections } = MRZCorrector.correct(reading.lines);
+    reading = { ...reading, lines: mrzLines };
+
+    const mrzResult = mrzLines.length > 0 ? MRZValidator.validateMRZ(mrzLines) : null;
+    const barcode = mrzResult ? null : await this.readBarcode(input);
+
+    const extractedData = this.extractFields(page, textLayer, reading, mrzResult, mrzCorrections, barcode);
 
-    if (mrzLines.length > 0) {
-      extractedData.mrzLine1 = { value: mrzLines[0] || '', confidence: mrzConfidence };
-      extractedData.mrzLine2 = { value: mrzLines[1] || '', confidence: mrzConfidence };
-      if (mrzLines.length > 2) {
-        extractedData.mrzLine3 = { value: mrzLines[2] || '', confidence: mrzConfidence };
+    if (mrzResult) {
+      const lineFields = ['mrzLine1', 'mrzLine2', 'mrzLine3'] as const;
+      mrzLines.slice(0, 3).forEach((line, i) => {
+        extractedData[lineFields[i]] = {
+          value: line,
+          confidence: FieldConfidence.forMRZLine(reading, i, mrzResult.valid),
+          found: true,
+          source: 'mrz',
+        };
+      });
+      if (mrzCorrections.length > 0) {
+        extractedData.mrzCorrections = mrzCorrections;
       }
     }
 
     return extractedData;
   }
 
-  private extractMRZ(text: string): string[] {
-    const lines = text.split('\n').map(line => line.trim());
-    const mrzLines: string[] = [];
+  private async preprocess(input: Buffer): Promise<PreprocessedImage | null> {
+    try {
+      return await ImagePreprocessor.preprocess(input);
+    } catch (error) {
+      console.warn('Image preprocessing failed, using original image:', error);
+      return null;
+    }
+  }
 
-    for (const line of lines) {
-      const cleanLine = line.replace(/\s/g, '').toUpperCase();
-      if (cleanLine.length === 44 && /^[A-Z0-9<]+$/.test(cleanLine)) {
-        mrzLines.push(cleanLine);
-      } else if (cleanLine.length === 30 && /^[A-Z0-9<]+$/.test(cleanLine)) {
-        mrzLines.push(cleanLine);
-      }
+  /**
+   * North American licences carry their data in an AAMVA PDF417 barcode on
+   * the back. Decoding failures are not fatal; the printed text is still used.
+   */
+  private async readBarcode(input: Buffer): Promise<AAMVAData | null> {
+    try {
+      const text = await BarcodeReader.readPDF417(input);
+      return text ? AAMVAParser.parse(text) : null;
+    } catch (error) {
+      console.warn('Barcode decoding failed:', error);
+      return null;
     }
+  }
+
+  private async recognizeMRZBand(mrzBand: Buffer): Promise<Page> {
+    await this.worker!.setParameters({
+      tessedit_char_whitelist: MRZ_CHARSET,
+      tessedit_pageseg_mode: PSM.SINGLE_BLOCK,
+    });
 
-    return mrzLines;
+    try {
+      const { data } = await this.worker!.recognize(mrzBand);
+      return data;
+    } finally {
+      await this.worker!.setParameters({ tessedit_char_whitelist: '' });
+    }
   }
 
-  private extractFields(text: string, parsedMRZ: any, mrzConfidence: number): ExtractedData {
-    const lines = text.split('\n');
+  private extractMRZ(page: Page, offsetY = 0): MRZReading {
+    const reading: MRZReading = { lines: [], charConfidences: [], charBoxes: [] };
+
+    const shift = (box: Bbox): BoundingBox => ({ ...box, y0: box.y0 + offsetY, y1: box.y1 + offsetY });
 
-    const documentType = parsedMRZ?.documentType || this.extractDocumentType(text);
-    const documentNumber = parsedMRZ?.documentNumber || this.extractPattern(text, /[A-Z]{1,2}\d{7,9}/);
-    const surname = parsedMRZ?.surname || this.extractSurname(text);
-    const givenNames = parsedMRZ?.givenNames || this.extractGivenNames(text);
-    const nationality = parsedMRZ?.nationality || this.extractPattern(text, /\b([A-Z]{3})\b/);
-    const dateOfBirth = parsedMRZ?.dateOfBirth || this.extractDate(text, ['birth', 'born', 'dob']);
-    const sex = parsedMRZ?.sex || this.extractSex(text);
-    const issuingCountry = parsedMRZ?.issuingCountry || this.extractPattern(text, /\b([A-Z]{3})\b/);
-    const issueDate = parsedMRZ?.issueDate || this.extractDate(text, ['issue', 'issued', 'date of issue']);
-    const expiryDate = parsedMRZ?.expiryDate || this.extractDate(text, ['expiry', 'expires', 'valid until', 'exp']);
+    for (const line of page.lines) {
+      const cleanLine = line.text.replace(/\s/g, '').toUpperCase();
+      if (MRZ_LINE_LENGTHS.includes(cleanLine.length) && /^[A-Z0-9<]+$/.test(cleanLine)) {
+        const symbols = line.words.flatMap(word => word.symbols).filter(symbol => symbol.text.trim());
+        const perChar = symbols.length === cleanLine.length;
 
-    const baseConfidence = parsedMRZ ? mrzConfidence : 70;
+        reading.lines.push(cleanLine);
+        reading.charConfidences.push(
+          perChar ? symbols.map(symbol => symbol.confidence) : cleanLine.split('').map(() => line.confidence)
+        );
+        reading.charBoxes.push(
+          perChar ? symbols.map(symbol => shift(symbol.bbox)) : cleanLine.split('').map(() => shift(line.bbox))
+        );
+      }
+    }
+
+    return reading;
+  }
+
+  /**
+   * MRZ lines in a PDF text layer are exact, but have no per-character
+   * boxes; fields located from them carry only a page reference.
+   */
+  private extractMRZFromText(text: string): MRZReading {
+    const lines = text
+      .split('\n')
+      .map(line => line.replace(/\s/g, '').toUpperCase())
+      .filter(line => MRZ_LINE_LENGTHS.includes(line.length) && /^[A-Z0-9<]+$/.test(line) && line.includes('<'));
 
     return {
-      documentType: { value: documentType, confidence: parsedMRZ ? mrzConfidence : 80 },
-      documentNumber: { value: documentNumber, confidence: parsedMRZ ? mrzConfidence : 75 },
-      surname: { value: surname, confidence: parsedMRZ ? mrzConfidence : 75 },
-      givenNames: { value: givenNames, confidence: parsedMRZ ? mrzConfidence : 75 },
-      nationality: { value: nationality, confidence: parsedMRZ ? mrzConfidence : 80 },
-      dateOfBirth: { value: dateOfBirth, confidence: parsedMRZ ? mrzConfidence : 70 },
-      sex: { value: sex, confidence: parsedMRZ ? mrzConfidence : 85 },
-      issuingCountry: { value: issuingCountry, confidence: parsedMRZ ? mrzConfidence : 80 },
-      issueDate: { value: issueDate, confidence: 70 },
-      expiryDate: { value: expiryDate, confidence: parsedMRZ ? mrzConfidence : 70 },
+      lines,
+      charConfidences: lines.map(line => line.split('').map(() => TEXT_LAYER_CONFIDENCE)),
+      charBoxes: lines.map(() => []),
     };
   }
 
-  private extractDocumentType(text: string): string {
+  private extractFields(
+    page: Page,
+    textLayer: string,
+    reading: MRZReading,
+    mrzResult: MRZValidationResult | null,
+    corrections: MRZCorrection[],
+    barcode: AAMVAData | null
+  ): ExtractedData {
+    const text = this.withoutMRZLines(textLayer.trim() ? textLayer : page.text);
+    const parsedMRZ = mrzResult?.parsedData;
+
+    const vizIssuingCountry = this.extractCountryCode(text, ['issuing', 'authority', 'country code', 'code of state']);
+    const issuingCountry = parsedMRZ?.issuingCountry || barcode?.issuingCountry || vizIssuingCountry.value;
+
+    const viz: { [key: string]: TextMatch } = {
+      documentType: this.extractDocumentType(text),
+      documentNumber: this.extractPattern(text, /[A-Z]{1,2}\d{7,9}/),
+      surname: this.extractSurname(text),
+      givenNames: this.extractGivenNames(text),
+      nationality: this.extractCountryCode(text, ['nationality', 'citizenship']),
+      dateOfBirth: this.extractDate(text, 'birth', issuingCountry),
+      sex: this.extractSex(text),
+      issuingCountry: vizIssuingCountry,
+      issueDate: this.extractDate(text, 'issue', issuingCountry),
+      expiryDate: this.extractDate(text, 'expiry', issuingCountry),
+    };
+
+    const vizField = (match: TextMatch, agreement?: boolean): ExtractedField => ({
+      value: match.value,
+      confidence: FieldConfidence.forText(page, match.source, agreement),
+      found: true,
+      source: 'viz',
+      location: FieldLocator.forText(page, match.source),
+    });
+
+    const field = (key: MRZField | 'issueDate'): ExtractedField => {
+      const mrzValue: string | undefined = key !== 'issueDate' ? parsedMRZ?.[key] : undefined;
+      const barcodeValue: string | undefined = key !== 'nationality' ? barcode?.[key] : undefined;
+      const vizMatch = viz[key];
+
+      const agreementWith = (value: string, nameFieldFull = false) =>
+        (COMPARABLE_FIELDS as string[]).includes(key) && vizMatch.value
+          ? VIZComparator.agrees(key as ComparableField, value, vizMatch.value, nameFieldFull)
+          : undefined;
+
+      const format = parsedMRZ?.format;
+      if (mrzValue && mrzResult && format) {
+        const agreement = agreementWith(mrzValue, MRZValidator.nameFieldFull(reading.lines));
+        return {
+          value: mrzValue,
+          confidence: FieldConfidence.forMRZField(
+            key as MRZField,
+            format,
+            reading,
+            mrzResult.checkDigits,
+            corrections,
+            agreement
+          ),
+          found: true,
+          source: 'mrz',
+          location: FieldLocator.forMRZField(key as MRZField, format, reading),
+        };
+      }
+
+      if (barcodeValue) {
+        return {
+          value: barcodeValue,
+          confidence: FieldConfidence.forBarcode(agreementWith(barcodeValue)),
+          found: true,
+          source: 'barcode',
+          location: { page: 1 },
+        };
+      }
+
+      if (!vizMatch.value) {
+        return { value: '', confidence: 0, found: false };
+      }
+
+      return vizField(vizMatch);
+    };
+
+    const extracted: ExtractedData = {
+      documentType: field('documentType'),
+      documentNumber: field('documentNumber'),
+      surname: field('surname'),
+      givenNames: field('givenNames'),
+      nationality: field('nationality'),
+      dateOfBirth: field('dateOfBirth'),
+      sex: field('sex'),
+      issuingCountry: field('issuingCountry'),
+      issueDate: field('issueDate'),
+      expiryDate: field('expiryDate'),
+    };
+
+    if (mrzResult || barcode) {
+      const visualZone: VisualZoneData = {};
+      for (const key of COMPARABLE_FIELDS) {
+        if (viz[key].value) {
+          visualZone[key] = vizField(viz[key]);
+        }
+      }
+      extracted.visualZone = visualZone;
+    }
+
+    return extracted;
+  }
+
+  /**
+   * Drops MRZ lines from the page text so the visual zone is parsed on its
+   * own; otherwise the document number pattern would match the MRZ itself.
+   */
+  private withoutMRZLines(text: string): string {
+    return text
+      .split('\n')
+      .filter(line => {
+        const compact = line.replace(/\s/g, '').toUpperCase();
+        return !compact.includes('<<') && !/^[A-Z0-9<]{28,}$/.test(compact);
+      })
+      .join('\n');
+  }
+
+  private extractDocumentType(text: string): TextMatch {
     const upper = text.toUpperCase();
-    if (upper.includes('PASSPORT')) return 'P';
-    if (upper.includes('VISA')) return 'V';
-    if (upper.includes('IDENTITY') || upper.includes('ID CARD')) return 'I';
-    if (upper.includes('DRIVING') || upper.includes('LICENSE') || upper.includes('LICENCE')) return 'D';
-    return 'P';
+    if (upper.includes('PASSPORT')) return { value: 'P', source: 'PASSPORT' };
+    if (upper.includes('VISA')) return { value: 'V', source: 'VISA' };
+    if (upper.includes('IDENTITY')) return { value: 'I', source: 'IDENTITY' };
+    if (upper.includes('ID CARD')) return { value: 'I', source: 'ID CARD' };
+    for (const keyword of ['DRIVING', 'LICENSE', 'LICENCE']) {
+      if (upper.includes(keyword)) return { value: 'D', source: keyword };
+    }
+    return NOT_FOUND;
   }
 
-  private extractPattern(text: string, pattern: RegExp): string {
+  private extractPattern(text: string, pattern: RegExp): TextMatch {
     const match = text.match(pattern);
-    return match ? match[1] || match[0] : '';
+    return match ? { value: match[1] || match[0], source: match[0] } : NOT_FOUND;
   }
 
-  private extractSurname(text: string): string {
+  /**
+   * Finds a country code, preferring one on a line labelled with any of the
+   * keywords. Only codes in the country registry are accepted, so words
+   * such as THE or PAS are never mistaken for a country.
+   */
+  private extractCountryCode(text: string, keywords: string[]): TextMatch {
+    const codesIn = (line: string) =>
+      (line.match(/\b[A-Z]{3}\b/g) || []).filter(code => CountryRegistry.isValid(code));
+
+    for (const line of text.split('\n')) {
+      const lower = line.toLowerCase();
+      if (keywords.some(kw => lower.includes(kw))) {
+        const [code] = codesIn(line);
+        if (code) return { value: code, source: code };
+      }
+    }
+
+    const code = codesIn(text).find(candidate => !AMBIGUOUS_COUNTRY_CODES.includes(candidate));
+    return code ? { value: code, source: code } : NOT_FOUND;
+  }
+
+  private extractSurname(text: string): TextMatch {
     const lines = text.split('\n');
     for (const line of lines) {
       const lower = line.toLowerCase();
       if (lower.includes('surname') || lower.includes('last name') || lower.includes('family name')) {
         const parts = line.split(/[:]/);
         if (parts.length > 1) {
-          return parts[1].trim().toUpperCase();
+          return { value: parts[1].trim().toUpperCase(), source: parts[1].trim() };
         }
       }
     }
-    return '';
+    return NOT_FOUND;
   }
 
-  private extractGivenNames(text: string): string {
+  private extractGivenNames(text: string): TextMatch {
     const lines = text.split('\n');
     for (const line of lines) {
       const lower = line.toLowerCase();
       if (lower.includes('given name') || lower.includes('first name')) {
         const parts = line.split(/[:]/);
         if (parts.length > 1) {
-          return parts[1].trim().toUpperCase();
+          return { value: parts[1].trim().toUpperCase(), source: parts[1].trim() };
         }
       }
     }
-    return '';
+    return NOT_FOUND;
   }
 
-  private extractDate(text: string, keywords: string[]): string {
-    const lines = text.split('\n');
-    for (const line of lines) {
-      const lower = line.toLowerCase();
-      if (keywords.some(kw => lower.includes(kw))) {
-        const dateMatch = line.match(/(\d{1,2})[\/\-\.](\d{1,2})[\/\-\.](\d{2,4})/);
-        if (dateMatch) {
-          let day = dateMatch[1];
-          let month = dateMatch[2];
-          let year = dateMatch[3];
-
-          if (year.length === 2) {
-            year = parseInt(year) > 50 ? `19${year}` : `20${year}`;
-          }
-
-          if (day.length === 1) day = `0${day}`;
-          if (month.length === 1) month = `0${month}`;
-
-          return `${year}-${month}-${day}`;
-        }
-
-        const isoMatch = line.match(/(\d{4})-(\d{2})-(\d{2})/);
-        if (isoMatch) {
-          return isoMatch[0];
-        }
-      }
-    }
+  private extractDate(text: string, kind: DateKind, issuingCountry: string): TextMatch {
+    const found = VIZDateParser.extract(text, kind, issuingCountry);
+    return found ? { value: PartialDates.format(found.date), source: found.source } : NOT_FOUND;
+  }
 
-    const allDates = text.match(/(\d{4})-(\d{2})-(\d{2})/g);
-    if (allDates && allDates.length > 0) {
-      return allDates[0];
+  private extractSex(text: string): TextMatch {
+    const labelled = text.match(/\b(?:sex|gender)\b[^A-Za-z\n]*\b(M|F|X|MALE|FEMALE)\b/i);
+    if (labelled) {
+      return { value: labelled[1].charAt(0).toUpperCase(), source: labelled[0] };
     }
 
-    return new Date().toISOString().split('T')[0];
-  }
-
-  private extractSex(text: string): string {
     const upper = text.toUpperCase();
-    if (/\bM\b/.test(upper) && !/\bF\b/.test(upper)) return 'M';
-    if (/\bF\b/.test(upper) && !/\bM\b/.test(upper)) return 'F';
-    if (upper.includes('MALE') && !upper.includes('FEMALE')) return 'M';
-    if (upper.includes('FEMALE')) return 'F';
-    return 'M';
+    if (/\bM\b/.test(upper) && !/\bF\b/.test(upper)) return { value: 'M', source: 'M' };
+    if (/\bF\b/.test(upper) && !/\bM\b/.test(upper)) return { value: 'F', source: 'F' };
+    if (upper.includes('MALE') && !upper.includes('FEMALE')) return { value: 'M', source: 'MALE' };
+    if (upper.includes('FEMALE')) return { value: 'F', source: 'FEMALE' };
+    return NOT_FOUND;
   }
 }
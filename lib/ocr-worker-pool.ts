@@ -0,0 +1,211 @@
+import fs from 'fs';
+import path from 'path';
+import { createWorker, Worker } from 'tesseract.js';
+
+export type PoolStatus = 'idle' | 'starting' | 'ready' | 'degraded' | 'failed';
+
+export interface PoolHealth {
+  status: PoolStatus;
+  size: number;
+  workers: number;
+  busy: number;
+  queued: number;
+  maxQueue: number;
+  langPath: string;
+  languages: string[];
+  error?: string;
+}
+
+export class OCRPoolBusyError extends Error {
+  constructor(maxQueue: number) {
+    super(`OCR queue is full (${maxQueue} requests waiting)`);
+    this.name = 'OCRPoolBusyError';
+  }
+}
+
+interface PoolConfig {
+  size: number;
+  maxQueue: number;
+  langPath: string;
+  languages: string[];
+}
+
+function loadConfig(): PoolConfig {
+  return {
+    size: Math.max(1, parseInt(process.env.OCR_POOL_SIZE || '2')),
+    maxQueue: Math.max(0, parseInt(process.env.OCR_MAX_QUEUE || '50')),
+    langPath: path.resolve(process.env.OCR_LANG_PATH || 'tessdata'),
+    languages: (process.env.OCR_LANGUAGES || 'eng').split(',').map(lang => lang.trim()).filter(Boolean),
+  };
+}
+
+export class OCRWorkerPool {
+  private static instance: OCRWorkerPool | null = null;
+
+  private readonly config: PoolConfig;
+  private readonly idle: Worker[] = [];
+  private readonly waiting: Array<(worker: Worker | null) => void> = [];
+  private workers: Worker[] = [];
+  private busy = 0;
+  private warmUpPromise: Promise<void> | null = null;
+  private status: PoolStatus = 'idle';
+  private lastError: string | undefined;
+
+  constructor(config: PoolConfig = loadConfig()) {
+    this.config = config;
+  }
+
+  static getInstance(): OCRWorkerPool {
+    if (!this.instance) {
+      this.instance = new OCRWorkerPool();
+    }
+    return this.instance;
+  }
+
+  /**
+   * Creates a worker that reads traineddata from the local language
+   * directory instead of the jsDelivr CDN, so OCR works without network
+   * access. Uncompressed `.traineddata` files are preferred over `.gz`.
+   */
+  static async createOfflineWorker(config: PoolConfig = loadConfig()): Promise<Worker> {
+    const files = config.languages.map(lang => path.join(config.langPath, `${lang}.traineddata`));
+    const missing = files.filter(file => !fs.existsSync(file) && !fs.existsSync(`${file}.gz`));
+    if (missing.length > 0) {
+      throw new Error(`Language data not found: ${missing.join(', ')}`);
+    }
+
+    // tesseract.js 5 never rejects createWorker when a language fails to
+    // load; the failure only reaches errorHandler.
+    let failStartup: (error: Error) => void = () => {};
+    const startupFailed = new Promise<never>((_, reject) => {
+      failStartup = reject;
+    });
+
+    const worker = createWorker(config.languages, undefined, {
+      langPath: config.langPath,
+      gzip: !files.every(file => fs.existsSync(file)),
+      cacheMethod: 'none',
+      errorHandler: error => failStartup(new Error(String(error))),
+    });
+
+    return Promise.race([worker, startupFailed]);
+  }
+
+  warmUp(): Promise<void> {
+    if (!this.warmUpPromise) {
+      this.status = 'starting';
+      this.warmUpPromise = this.startWorkers();
+    }
+    return this.warmUpPromise;
+  }
+
+  async run<T>(task: (worker: Worker) => Promise<T>): Promise<T> {
+    const worker = await this.acquire();
+    try {
+      return await task(worker);
+    } finally {
+      this.release(worker);
+    }
+  }
+
+  getHealth(): PoolHealth {
+    return {
+      status: this.status,
+      size: this.config.size,
+      workers: this.workers.length,
+      busy: this.busy,
+      queued: this.waiting.length,
+      maxQueue: this.config.maxQueue,
+      langPath: this.config.langPath,
+      languages: this.config.languages,
+      error: this.lastError,
+    };
+  }
+
+  isReady(): boolean {
+    return this.status === 'ready' || this.status === 'degraded';
+  }
+
+  async terminate(): Promise<void> {
+    const workers = this.workers;
+    this.workers = [];
+    this.idle.length = 0;
+    this.warmUpPromise = null;
+    this.status = 'idle';
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private async startWorkers(): Promise<void> {
+    const results = await Promise.allSettled(
+      Array.from({ length: this.config.size }, () => OCRWorkerPool.createOfflineWorker(this.config))
+    );
+
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        this.workers.push(result.value);
+        this.handOff(result.value);
+      } else {
+        this.lastError = result.reason?.message || String(result.reason);
+        console.error('OCR worker failed to start:', result.reason);
+      }
+    }
+
+    if (this.workers.length === 0) {
+      this.status = 'failed';
+      this.warmUpPromise = null;
+      this.rejectWaiting();
+    } else {
+      this.status = this.workers.length < this.config.size ? 'degraded' : 'ready';
+    }
+  }
+
+  private async acquire(): Promise<Worker> {
+    await this.warmUp();
+    if (this.status === 'failed') {
+      throw new Error(`OCR workers unavailable: ${this.lastError}`);
+    }
+
+    const worker = this.idle.pop();
+    if (worker) {
+      this.busy++;
+      return worker;
+    }
+
+    if (this.waiting.length >= this.config.maxQueue) {
+      throw new OCRPoolBusyError(this.config.maxQueue);
+    }
+
+    return new Promise<Worker>((resolve, reject) => {
+      this.waiting.push(queued => {
+        if (!queued) {
+          reject(new Error(`OCR workers unavailable: ${this.lastError}`));
+          return;
+        }
+        this.busy++;
+        resolve(queued);
+      });
+    });
+  }
+
+  private release(worker: Worker) {
+    this.busy--;
+    if (this.workers.includes(worker)) {
+      this.handOff(worker);
+    }
+  }
+
+  private handOff(worker: Worker) {
+    const next = this.waiting.shift();
+    if (next) {
+      next(worker);
+    } else {
+      this.idle.push(worker);
+    }
+  }
+
+  private rejectWaiting() {
+    for (const next of this.waiting.splice(0)) {
+      next(null);
+    }
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * A calendar date whose month or day may be unknown. ICAO 9303 marks an
+ * unknown month or day with '<<' (or 'XX' in the visual zone); the year is
+ * always present.
+ */
+export interface PartialDate {
+  year: number;
+  month: number | null;
+  day: number | null;
+}
+
+/**
+ * What a date records. Birth and issue dates lie in the past; expiry dates
+ * may lie up to MAX_EXPIRY_YEARS_AHEAD years in the future.
+ */
+export type DateKind = 'birth' | 'issue' | 'expiry';
+
+const MAX_EXPIRY_YEARS_AHEAD = 50;
+const UNKNOWN = /^(<<|XX)$/i;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function pad(value: number | null, width: number): string {
+  return value === null ? 'X'.repeat(width) : String(value).padStart(width, '0');
+}
+
+export class PartialDates {
+  /**
+   * Builds a date from its parts, returning null for impossible calendar
+   * dates such as 30 February.
+   */
+  static create(year: number, month: number | null, day: number | null): PartialDate | null {
+    if (!Number.isInteger(year) || year < 1 || year > 9999) return null;
+    if (month !== null && (!Number.isInteger(month) || month < 1 || month > 12)) return null;
+    if (day !== null) {
+      const maxDay = month === null ? 31 : daysInMonth(year, month);
+      if (!Number.isInteger(day) || day < 1 || day > maxDay) return null;
+    }
+    return { year, month, day };
+  }
+
+  static fromDate(date: Date): PartialDate {
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+  }
+
+  /**
+   * Parses an MRZ YYMMDD date, choosing the century from what the date
+   * records rather than a fixed pivot year.
+   */
+  static fromMRZ(yymmdd: string, kind: DateKind, reference: Date = new Date()): PartialDate | null {
+    if (yymmdd.length !== 6 || !/^\d{2}$/.test(yymmdd.substring(0, 2))) return null;
+
+    const month = this.parsePart(yymmdd.substring(2, 4));
+    const day = this.parsePart(yymmdd.substring(4, 6));
+    if (month === undefined || day === undefined) return null;
+
+    const year = this.resolveCentury(parseInt(yymmdd.substring(0, 2)), kind, month, day, reference);
+    return this.create(year, month, day);
+  }
+
+  /**
+   * Expands a two-digit year. Birth and issue dates take the latest century
+   * that does not put them in the future; expiry dates take the century that
+   * places them no more than MAX_EXPIRY_YEARS_AHEAD years ahead.
+   */
+  static resolveCentury(
+    twoDigitYear: number,
+    kind: DateKind,
+    month: number | null = null,
+    day: number | null = null,
+    reference: Date = new Date()
+  ): number {
+    const base = Math.floor(reference.getUTCFullYear() / 100) * 100;
+    const candidates = [base + 100, base, base - 100].map(century => century + twoDigitYear);
+
+    if (kind === 'expiry') {
+      const limit = reference.getUTCFullYear() + MAX_EXPIRY_YEARS_AHEAD;
+      return candidates.find(year => year <= limit)!;
+    }
+
+    return candidates.find(year => this.earliest({ year, month, day }).getTime() <= reference.getTime())!;
+  }
+
+  /**
+   * Parses the YYYY-MM-DD form used for extracted fields, where an unknown
+   * month or day is written XX.
+   */
+  static parse(value: string): PartialDate | null {
+    const match = value.match(/^(\d{4})-(\d{2}|XX)-(\d{2}|XX)$/i);
+    if (!match) return null;
+
+    const month = this.parsePart(match[2]);
+    const day = this.parsePart(match[3]);
+    if (month === undefined || day === undefined) return null;
+    return this.create(parseInt(match[1]), month, day);
+  }
+
+  static format(date: PartialDate): string {
+    return `${pad(date.year, 4)}-${pad(date.month, 2)}-${pad(date.day, 2)}`;
+  }
+
+  static isComplete(date: PartialDate): boolean {
+    return date.month !== null && date.day !== null;
+  }
+
+  /** The first day the date could denote, at midnight UTC. */
+  static earliest(date: PartialDate): Date {
+    return new Date(Date.UTC(date.year, (date.month ?? 1) - 1, date.day ?? 1));
+  }
+
+  /** The last day the date could denote, at midnight UTC. */
+  static latest(date: PartialDate): Date {
+    const month = date.month ?? 12;
+    return new Date(Date.UTC(date.year, month - 1, date.day ?? daysInMonth(date.year, month)));
+  }
+
+  /**
+   * Youngest and oldest age the holder can be on the given day. The two are
+   * equal for complete dates of birth.
+   */
+  static ageRange(dateOfBirth: PartialDate, at: Date = new Date()): [min: number, max: number] {
+    return [this.ageOn(this.latest(dateOfBirth), at), this.ageOn(this.earliest(dateOfBirth), at)];
+  }
+
+  /** True when the two dates agree on every part both of them know. */
+  static compatible(a: PartialDate, b: PartialDate): boolean {
+    return (
+      a.year === b.year &&
+      (a.month === null || b.month === null || a.month === b.month) &&
+      (a.day === null || b.day === null || a.day === b.day)
+    );
+  }
+
+  /** True unless `a` is certainly on or after `b`. */
+  static possiblyBefore(a: PartialDate, b: PartialDate): boolean {
+    return this.earliest(a).getTime() < this.latest(b).getTime();
+  }
+
+  /** Whole days from `from` to the first or last day the date could denote. */
+  static daysUntil(date: PartialDate, from: Date = new Date(), bound: 'earliest' | 'latest' = 'earliest'): number {
+    const target = bound === 'earliest' ? this.earliest(date) : this.latest(date);
+    const start = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+    return Math.round((target.getTime() - start) / DAY_MS);
+  }
+
+  private static ageOn(birth: Date, at: Date): number {
+    let age = at.getUTCFullYear() - birth.getUTCFullYear();
+    const monthDiff = at.getUTCMonth() - birth.getUTCMonth();
+    if (monthDiff < 0 || (monthDiff === 0 && at.getUTCDate() < birth.getUTCDate())) {
+      age--;
+    }
+    return age;
+  }
+
+  /** A two-character month or day: a number, null when unknown, undefined when unreadable. */
+  private static parsePart(part: string): number | null | undefined {
+    if (UNKNOWN.test(part)) return null;
+    return /^\d{2}$/.test(part) ? parseInt(part) : undefined;
+  }
+}
@@ -0,0 +1,128 @@
+import { loadUploadConfig } from './upload-validator';
+
+const PDF_SIGNATURE = '%PDF-';
+const RENDER_DPI = 300;
+/** Below this an MRZ is too small to read, so larger pages are rejected. */
+const MIN_RENDER_DPI = 150;
+const MAX_PAGES = 10;
+
+export interface PDFPageImage {
+  pageNumber: number;
+  image: Buffer;
+  /** The page's embedded text layer; empty for scans without one. */
+  text: string;
+}
+
+export class PDFError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PDFError';
+  }
+}
+
+export class PDFReader {
+  static isPDF(input: Buffer): boolean {
+    return input.subarray(0, 1024).toString('latin1').includes(PDF_SIGNATURE);
+  }
+
+  /**
+   * The scale a page of `width` by `height` points is rendered at: RENDER_DPI,
+   * reduced so neither side exceeds `maxDimension` pixels. Null when that
+   * would take it below MIN_RENDER_DPI, or the page has no area.
+   */
+  static renderScale(width: number, height: number, maxDimension: number): number | null {
+    const longest = Math.max(width, height);
+    if (!(Math.min(width, height) > 0)) return null;
+    const scale = Math.min(RENDER_DPI / 72, maxDimension / longest);
+    return scale >= MIN_RENDER_DPI / 72 ? scale : null;
+  }
+
+  /**
+   * Opens a PDF and checks its page count and page sizes without rendering
+   * anything. Returns the size in points of the first page that is too large
+   * to render within `maxDimension` pixels, or null when every page fits.
+   */
+  static async findOversizedPage(
+    input: Buffer,
+    maxDimension: number
+  ): Promise<{ pageNumber: number; width: number; height: number } | null> {
+    return this.withDocument(input, (document, count) => {
+      for (let i = 0; i < count; i++) {
+        const page = document.loadPage(i);
+        const [x0, y0, x1, y1] = page.getBounds();
+        page.destroy();
+        if (this.renderScale(x1 - x0, y1 - y0, maxDimension) === null) {
+          return { pageNumber: i + 1, width: Math.round(x1 - x0), height: Math.round(y1 - y0) };
+        }
+      }
+      return null;
+    });
+  }
+
+  /**
+   * Rasterises every page of a PDF to PNG at RENDER_DPI, or less for pages
+   * too large to fit `maxDimension` pixels, and extracts its text layer, all
+   * in-process with MuPDF. Encrypted PDFs, PDFs longer than MAX_PAGES and
+   * pages that would render below MIN_RENDER_DPI are rejected rather than
+   * partially verified.
+   */
+  static async readPages(input: Buffer, maxDimension: number = loadUploadConfig().maxDimension): Promise<PDFPageImage[]> {
+    const mupdf = await import('mupdf');
+
+    return this.withDocument(input, (document, count) => {
+      const pages: PDFPageImage[] = [];
+      for (let i = 0; i < count; i++) {
+        const page = document.loadPage(i);
+        const [x0, y0, x1, y1] = page.getBounds();
+        const scale = this.renderScale(x1 - x0, y1 - y0, maxDimension);
+        if (scale === null) {
+          page.destroy();
+          throw new PDFError(`Page ${i + 1} is too large to render within ${maxDimension} pixels`);
+        }
+
+        const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceRGB, false);
+        const text = page.toStructuredText('preserve-whitespace');
+
+        pages.push({ pageNumber: i + 1, image: Buffer.from(pixmap.asPNG()), text: text.asText() });
+
+        text.destroy();
+        pixmap.destroy();
+        page.destroy();
+      }
+      return pages;
+    });
+  }
+
+  /** Opens a PDF, rejects it if it cannot be read in full, and runs `use` on it. */
+  private static async withDocument<T>(
+    input: Buffer,
+    use: (document: import('mupdf').Document, pageCount: number) => T
+  ): Promise<T> {
+    const mupdf = await import('mupdf');
+
+    let document;
+    try {
+      document = mupdf.Document.openDocument(input, 'application/pdf');
+    } catch (error: any) {
+      throw new PDFError(`Unable to open PDF: ${error.message}`);
+    }
+
+    try {
+      if (document.needsPassword()) {
+        throw new PDFError('PDF is password protected');
+      }
+
+      const count = document.countPages();
+      if (count === 0) {
+        throw new PDFError('PDF has no pages');
+      }
+      if (count > MAX_PAGES) {
+        throw new PDFError(`PDF has ${count} pages; at most ${MAX_PAGES} are supported`);
+      }
+
+      return use(document, count);
+    } finally {
+      document.destroy();
+    }
+  }
+}
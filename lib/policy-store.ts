@@ -0,0 +1,298 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { EligibilityPolicy, PolicyReference } from './types';
+import { defaultEligibilityPolicy } from './default-policy';
+import { PartialDates } from './partial-date';
+
+/**
+ * One immutable version of a named policy. Versions are never edited;
+ * publishing a change adds a new version. A version is in force from
+ * `effectiveFrom` through `effectiveUntil` (inclusive, UTC dates).
+ */
+export interface PolicyVersion extends PolicyReference {
+  description?: string;
+  policy: EligibilityPolicy;
+  createdAt: string;
+}
+
+export interface StoredPolicy {
+  id: string;
+  archived: boolean;
+  versions: PolicyVersion[];
+}
+
+export interface PolicySummary {
+  id: string;
+  name: string;
+  archived: boolean;
+  latestVersion: number;
+  /** The version a verification today would use, if any. */
+  effectiveVersion: number | null;
+}
+
+export interface PolicyVersionInput {
+  name: string;
+  description?: string;
+  policy: EligibilityPolicy;
+  effectiveFrom?: string;
+  effectiveUntil?: string;
+}
+
+interface PolicyFile {
+  policies: StoredPolicy[];
+}
+
+export const DEFAULT_POLICY_ID = 'default';
+
+const POLICY_ID = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export class PolicyNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyNotFoundError';
+  }
+}
+
+export class PolicyConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PolicyConflictError';
+  }
+}
+
+export class InvalidPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidPolicyError';
+  }
+}
+
+export class NoEffectivePolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NoEffectivePolicyError';
+  }
+}
+
+function today(): string {
+  return PartialDates.format(PartialDates.fromDate(new Date()));
+}
+
+function hashPolicy(policy: EligibilityPolicy): string {
+  return crypto.createHash('sha256').update(JSON.stringify(policy)).digest('hex');
+}
+
+export class PolicyStore {
+  private static instance: PolicyStore | null = null;
+
+  private readonly filePath: string;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = path.resolve(process.env.POLICY_STORE_PATH || 'data/policies.json')) {
+    this.filePath = filePath;
+  }
+
+  static getInstance(): PolicyStore {
+    if (!this.instance) {
+      this.instance = new PolicyStore();
+    }
+    return this.instance;
+  }
+
+  static reference(version: PolicyVersion): PolicyReference {
+    const { id, version: number, name, hash, effectiveFrom, effectiveUntil } = version;
+    return { id, version: number, name, hash, effectiveFrom, ...(effectiveUntil ? { effectiveUntil } : {}) };
+  }
+
+  /**
+   * Checks an input and builds the version it describes. Policy files used
+   * by the command-line verifier go through here without being stored.
+   */
+  static buildVersion(id: string, version: number, input: PolicyVersionInput): PolicyVersion {
+    if (!input.name || typeof input.name !== 'string') {
+      throw new InvalidPolicyError('Policy name is required');
+    }
+    if (!input.policy || typeof input.policy !== 'object') {
+      throw new InvalidPolicyError('Policy body is required');
+    }
+
+    const effectiveFrom = input.effectiveFrom ?? today();
+    for (const [label, date] of [['effectiveFrom', effectiveFrom], ['effectiveUntil', input.effectiveUntil]]) {
+      const parsed = date === undefined ? null : PartialDates.parse(date);
+      if (date !== undefined && (!parsed || !PartialDates.isComplete(parsed))) {
+        throw new InvalidPolicyError(`${label} must be a YYYY-MM-DD date`);
+      }
+    }
+    if (input.effectiveUntil && input.effectiveUntil < effectiveFrom) {
+      throw new InvalidPolicyError('effectiveUntil is before effectiveFrom');
+    }
+
+    return {
+      id,
+      version,
+      name: input.name,
+      ...(input.description ? { description: input.description } : {}),
+      hash: hashPolicy(input.policy),
+      effectiveFrom,
+      ...(input.effectiveUntil ? { effectiveUntil: input.effectiveUntil } : {}),
+      policy: input.policy,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  async list(): Promise<PolicySummary[]> {
+    const { policies } = await this.read();
+    return policies.map(policy => {
+      const latest = policy.versions[policy.versions.length - 1];
+      return {
+        id: policy.id,
+        name: latest.name,
+        archived: policy.archived,
+        latestVersion: latest.version,
+        effectiveVersion: policy.archived ? null : this.effectiveVersion(policy, today())?.version ?? null,
+      };
+    });
+  }
+
+  async get(id: string): Promise<StoredPolicy> {
+    const { policies } = await this.read();
+    const policy = policies.find(p => p.id === id);
+    if (!policy) {
+      throw new PolicyNotFoundError(`Policy ${id} does not exist`);
+    }
+    return policy;
+  }
+
+  async create(id: string, input: PolicyVersionInput): Promise<PolicyVersion> {
+    if (!POLICY_ID.test(id)) {
+      throw new InvalidPolicyError('Policy id must be 1-64 lowercase letters, digits, "-" or "_"');
+    }
+
+    return this.mutate(file => {
+      if (file.policies.some(p => p.id === id)) {
+        throw new PolicyConflictError(`Policy ${id} already exists; publish a new version instead`);
+      }
+      const version = PolicyStore.buildVersion(id, 1, input);
+      file.policies.push({ id, archived: false, versions: [version] });
+      return version;
+    });
+  }
+
+  async addVersion(id: string, input: PolicyVersionInput): Promise<PolicyVersion> {
+    return this.mutate(file => {
+      const policy = file.policies.find(p => p.id === id);
+      if (!policy) {
+        throw new PolicyNotFoundError(`Policy ${id} does not exist`);
+      }
+      if (policy.archived) {
+        throw new PolicyConflictError(`Policy ${id} is archived`);
+      }
+      const version = PolicyStore.buildVersion(id, policy.versions.length + 1, input);
+      policy.versions.push(version);
+      return version;
+    });
+  }
+
+  /**
+   * Archived policies can no longer be used for verification, but their
+   * versions are kept so past results can still be traced.
+   */
+  async archive(id: string): Promise<StoredPolicy> {
+    return this.mutate(file => {
+      const policy = file.policies.find(p => p.id === id);
+      if (!policy) {
+        throw new PolicyNotFoundError(`Policy ${id} does not exist`);
+      }
+      policy.archived = true;
+      return policy;
+    });
+  }
+
+  /**
+   * Picks the policy version to verify against on the given day: the pinned
+   * version if one is requested, otherwise the newest version in force.
+   */
+  async resolve(id: string, version?: number, on: string = today()): Promise<PolicyVersion> {
+    const policy = await this.get(id);
+    if (policy.archived) {
+      throw new NoEffectivePolicyError(`Policy ${id} is archived`);
+    }
+
+    if (version !== undefined) {
+      const pinned = policy.versions.find(v => v.version === version);
+      if (!pinned) {
+        throw new PolicyNotFoundError(`Policy ${id} has no version ${version}`);
+      }
+      if (!this.inForce(pinned, on)) {
+        throw new NoEffectivePolicyError(`Version ${version} of policy ${id} is not in force on ${on}`);
+      }
+      return pinned;
+    }
+
+    const effective = this.effectiveVersion(policy, on);
+    if (!effective) {
+      throw new NoEffectivePolicyError(`Policy ${id} has no version in force on ${on}`);
+    }
+    return effective;
+  }
+
+  private effectiveVersion(policy: StoredPolicy, on: string): PolicyVersion | undefined {
+    return [...policy.versions].reverse().find(version => this.inForce(version, on));
+  }
+
+  private inForce(version: PolicyVersion, on: string): boolean {
+    return version.effectiveFrom <= on && (!version.effectiveUntil || on <= version.effectiveUntil);
+  }
+
+  /**
+   * Before anything is stored, the store holds the built-in default policy
+   * as version 1 of `default`, in force from the start.
+   */
+  private async read(): Promise<PolicyFile> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      return {
+        policies: [
+          {
+            id: DEFAULT_POLICY_ID,
+            archived: false,
+            versions: [
+              {
+                id: DEFAULT_POLICY_ID,
+                version: 1,
+                name: 'Default eligibility policy',
+                hash: hashPolicy(defaultEligibilityPolicy),
+                effectiveFrom: '1970-01-01',
+                policy: defaultEligibilityPolicy,
+                createdAt: '1970-01-01T00:00:00.000Z',
+              },
+            ],
+          },
+        ],
+      };
+    }
+  }
+
+  /**
+   * Applies a change to the stored file. Changes are serialised within the
+   * process and written to a temporary file first, so a crash never leaves
+   * a half-written store.
+   */
+  private mutate<T>(change: (file: PolicyFile) => T): Promise<T> {
+    const result = this.writes.then(async () => {
+      const file = await this.read();
+      const value = change(file);
+
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const temporary = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(file, null, 2));
+      await fs.rename(temporary, this.filePath);
+      return value;
+    });
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
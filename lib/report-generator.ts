@@ -0,0 +1,273 @@
+import crypto from 'crypto';
+import sharp from 'sharp';
+import {
+  ApplicantData,
+  CheckStatus,
+  DecisionOutcome,
+  ExtractedField,
+  FieldSource,
+  VerificationResult,
+} from './types';
+import { FIELD_LABELS } from './document-validator';
+import { SIDE_LABELS } from './document-merger';
+import { CORRECTABLE_FIELDS } from './manual-corrections';
+import { PDFReader } from './pdf-reader';
+
+export type ReportFormat = 'html' | 'pdf';
+
+/** A rendered report. Its id and hash head the report and are repeated at the end. */
+export interface VerificationReport {
+  id: string;
+  generatedAt: string;
+  /**
+   * SHA-256 over the report id, generation time, applicant, verification
+   * result and thumbnail, so a printed copy can be matched to its record.
+   */
+  contentHash: string;
+  html: string;
+}
+
+const THUMBNAIL_SIZE = 480;
+
+/** A4 in PDF points. */
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+
+const OUTCOME_LABELS: { [outcome in DecisionOutcome]: string } = {
+  approve: 'Approve',
+  manual_review: 'Manual review',
+  reject: 'Reject',
+};
+
+// MuPDF's built-in fonts have no check-mark glyphs, so statuses are words.
+const STATUS_LABELS: { [status in CheckStatus]: string } = {
+  passed: 'Passed',
+  failed: 'Failed',
+  unverified: 'Unverified',
+};
+
+const SOURCE_LABELS: { [source in FieldSource]: string } = {
+  mrz: 'MRZ',
+  viz: 'Visual zone',
+  barcode: 'Barcode',
+  manual: 'Manual entry',
+};
+
+// Only CSS that MuPDF's HTML layout understands: no flexbox or grid.
+const STYLES = `
+  @page { margin: 36pt; }
+  body { font-family: sans-serif; font-size: 9pt; color: #111; }
+  h1 { font-size: 16pt; margin: 0 0 4pt 0; }
+  h2 { font-size: 11pt; margin: 14pt 0 4pt 0; border-bottom: 1px solid #999; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; vertical-align: top; padding: 2pt 4pt; border-bottom: 1px solid #ddd; }
+  th { background: #eee; }
+  .meta td { border: none; padding: 1pt 4pt 1pt 0; }
+  .label { color: #555; width: 110pt; }
+  .mono { font-family: monospace; }
+  .muted { color: #666; }
+  .approve, .passed { color: #166534; }
+  .manual_review, .unverified { color: #854d0e; }
+  .reject, .failed { color: #991b1b; }
+  .outcome { font-size: 14pt; font-weight: bold; }
+  .thumbnail { width: 200pt; border: 1px solid #ccc; }
+  .footer { margin-top: 16pt; border-top: 1px solid #999; padding-top: 4pt; font-size: 8pt; color: #555; }
+`;
+
+function escape(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function rows(cells: string[][]): string {
+  return cells.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('\n');
+}
+
+/** Label and value pairs; values are already escaped. */
+function details(pairs: string[][]): string {
+  return pairs.map(([label, value]) => `<tr><td class="label">${escape(label)}</td><td>${value}</td></tr>`).join('\n');
+}
+
+export class ReportGenerator {
+  /**
+   * Reduces an uploaded image, or the first page of a PDF, to a JPEG data
+   * URL small enough to embed in the report.
+   */
+  static async thumbnail(input: Buffer): Promise<string> {
+    const image = PDFReader.isPDF(input) ? (await PDFReader.readPages(input))[0].image : input;
+    const jpeg = await sharp(image)
+      .rotate()
+      .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+    return `data:image/jpeg;base64,${jpeg.toString('base64')}`;
+  }
+
+  static build(
+    result: VerificationResult,
+    applicant: ApplicantData,
+    thumbnail?: string,
+    now: Date = new Date()
+  ): VerificationReport {
+    const generatedAt = now.toISOString();
+    const id = `VR-${generatedAt.slice(0, 10).replace(/-/g, '')}-${crypto.randomBytes(16).toString('hex').toUpperCase()}`;
+    const contentHash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ id, generatedAt, applicant, result, thumbnail: thumbnail || null }))
+      .digest('hex');
+
+    return { id, generatedAt, contentHash, html: this.render({ id, generatedAt, contentHash }, result, applicant, thumbnail) };
+  }
+
+  /** Lays the report's HTML out on A4 pages with MuPDF, in-process. */
+  static async toPDF(html: string): Promise<Buffer> {
+    const mupdf = await import('mupdf');
+    const document = mupdf.Document.openDocument(Buffer.from(html, 'utf8'), 'text/html');
+    const output = new mupdf.Buffer();
+    const writer = new mupdf.DocumentWriter(output, 'pdf', '');
+
+    try {
+      document.layout(PAGE_WIDTH, PAGE_HEIGHT, 9);
+      for (let i = 0; i < document.countPages(); i++) {
+        const page = document.loadPage(i);
+        const device = writer.beginPage(page.getBounds());
+        page.run(device, mupdf.Matrix.identity);
+        writer.endPage();
+      }
+      writer.close();
+      return Buffer.from(output.asUint8Array());
+    } finally {
+      writer.destroy();
+      document.destroy();
+    }
+  }
+
+  private static render(
+    report: Omit<VerificationReport, 'html'>,
+    result: VerificationResult,
+    applicant: ApplicantData,
+    thumbnail?: string
+  ): string {
+    const { decision, extractedData: data, policy } = result;
+    const holder = [data.givenNames.value, data.surname.value].filter(Boolean).join(' ');
+
+    const facts = details([
+      ['Document', escape(`${data.documentType.value} ${data.documentNumber.value}`.trim() || 'Not read')],
+      ['Holder', escape(holder || 'Not read')],
+      ['Nationality', escape(data.nationality.value)],
+      ['Issuing country', escape(data.issuingCountry.value)],
+      ['Expires', escape(data.expiryDate.value)],
+    ]);
+
+    const applicantRows = details([
+      ['Name', escape(applicant.name)],
+      ['Date of birth', escape(applicant.dateOfBirth)],
+      ['Passport number', escape(applicant.passportNumber)],
+      ['Nationality', escape(applicant.nationality)],
+      ['Visa type', escape(applicant.intendedVisaType)],
+      ...(applicant.intendedStayDays !== undefined ? [['Intended stay', `${applicant.intendedStayDays} days`]] : []),
+      ...(applicant.supportingDocuments?.length
+        ? [['Supporting documents', escape(applicant.supportingDocuments.join(', '))]]
+        : []),
+    ]);
+
+    const fieldRows = rows(
+      CORRECTABLE_FIELDS.filter(field => data[field]).map(field => this.fieldRow(FIELD_LABELS[field], data[field]!))
+    );
+
+    const checkRows = (checks: VerificationResult['validationChecks']) =>
+      rows(
+        checks.map(check => [
+          `<span class="${check.status}">${STATUS_LABELS[check.status]}</span>`,
+          escape(check.check),
+          escape(check.message),
+        ])
+      );
+
+    const reasonRows = rows(
+      decision.reasons.map(reason => [String(reason.points), `<span class="mono">${escape(reason.code)}</span>`, escape(reason.message)])
+    );
+
+    const policyRows = details([
+      ['Policy', escape(`${policy.name} (${policy.id}, version ${policy.version})`)],
+      ['In force', escape(`${policy.effectiveFrom} to ${policy.effectiveUntil || 'open-ended'}`)],
+      ['Policy hash', `<span class="mono">${escape(policy.hash)}</span>`],
+    ]);
+
+    const reference = `Report ${escape(report.id)} &middot; generated ${escape(report.generatedAt)} &middot; SHA-256 <span class="mono">${escape(report.contentHash)}</span>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Verification report ${escape(report.id)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>Document Verification Report</h1>
+<table class="meta">
+${details([
+  ['Report id', `<span class="mono">${escape(report.id)}</span>`],
+  ['Generated', escape(report.generatedAt)],
+  ['Content hash', `<span class="mono">${escape(report.contentHash)}</span>`],
+])}
+</table>
+
+<h2>Decision</h2>
+<p><span class="outcome ${decision.outcome}">${OUTCOME_LABELS[decision.outcome]}</span>
+&nbsp; Risk score ${decision.riskScore} &middot; Overall confidence ${result.overallConfidence}%</p>
+<p>${escape(result.summary)}</p>
+${decision.reasons.length > 0 ? `<table><tr><th>Points</th><th>Reason</th><th>Details</th></tr>\n${reasonRows}</table>` : ''}
+
+<h2>Document</h2>
+${thumbnail ? `<p><img class="thumbnail" src="${escape(thumbnail)}" alt="Document image"></p>` : ''}
+<table class="meta">${facts}</table>
+
+<h2>Applicant</h2>
+<table class="meta">${applicantRows}</table>
+
+<h2>Extracted Fields</h2>
+<table><tr><th>Field</th><th>Value</th><th>Confidence</th><th>Source</th></tr>
+${fieldRows}</table>
+
+<h2>Validation Checks</h2>
+<table><tr><th>Status</th><th>Check</th><th>Details</th></tr>
+${checkRows(result.validationChecks)}</table>
+
+<h2>Eligibility Checks</h2>
+<table><tr><th>Status</th><th>Check</th><th>Details</th></tr>
+${checkRows(result.eligibilityChecks)}</table>
+
+${result.recommendedActions.length > 0 ? `<h2>Recommended Actions</h2>\n<ul>${result.recommendedActions.map(action => `<li>${escape(action)}</li>`).join('')}</ul>` : ''}
+
+<h2>Policy</h2>
+<table class="meta">${policyRows}</table>
+
+<div class="footer">${reference}<br>Check this copy against the audit record at /api/reports/${escape(report.id)}?hash=${escape(report.contentHash)}.</div>
+</body>
+</html>
+`;
+  }
+
+  /** Value, confidence and provenance of one field, noting any correction. */
+  private static fieldRow(label: string, field: ExtractedField): string[] {
+    const location = field.location
+      ? [field.location.side ? SIDE_LABELS[field.location.side] : '', `page ${field.location.page}`].filter(Boolean).join(', ')
+      : '';
+    const source = [field.source ? SOURCE_LABELS[field.source] : '', location].filter(Boolean).join(', ');
+    const correction = field.original
+      ? `<br><span class="muted">Corrected ${escape(field.original.correctedAt)}; OCR read "${escape(field.original.value)}" (${field.original.confidence}%)</span>`
+      : '';
+
+    return [
+      escape(label),
+      (field.found ? escape(field.value) : '<span class="muted">Not found</span>') + correction,
+      field.found ? `${field.confidence}%` : '',
+      escape(source),
+    ];
+  }
+}
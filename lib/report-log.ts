@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { DecisionOutcome, PolicyReference } from './types';
+import type { ReportFormat } from './report-generator';
+
+/**
+ * What the audit log keeps of an issued report: enough to check a printed
+ * copy's id, hash and outcome, without the document images.
+ */
+export interface ReportRecord {
+  id: string;
+  generatedAt: string;
+  /** SHA-256 printed on the report. */
+  contentHash: string;
+  format: ReportFormat;
+  outcome: DecisionOutcome;
+  riskScore: number;
+  documentNumber: string;
+  holder: string;
+  policy: PolicyReference;
+}
+
+/**
+ * Append-only JSON Lines log of issued reports, kept in `REPORT_LOG_PATH`
+ * (default `./data/reports.jsonl`).
+ */
+export class ReportLog {
+  private static instance: ReportLog | null = null;
+
+  private readonly filePath: string;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = path.resolve(process.env.REPORT_LOG_PATH || 'data/reports.jsonl')) {
+    this.filePath = filePath;
+  }
+
+  static getInstance(): ReportLog {
+    if (!this.instance) {
+      this.instance = new ReportLog();
+    }
+    return this.instance;
+  }
+
+  /** Appends are serialised within the process so lines never interleave. */
+  append(record: ReportRecord): Promise<void> {
+    const result = this.writes.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, JSON.stringify(record) + '\n');
+    });
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+
+  /** The record of a report, only when `contentHash` is the one printed on it. */
+  async findIssued(id: string, contentHash: string): Promise<ReportRecord | null> {
+    const record = await this.find(id);
+    if (!record) return null;
+
+    const expected = Buffer.from(record.contentHash, 'utf8');
+    const given = Buffer.from(contentHash.toLowerCase(), 'utf8');
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected) ? record : null;
+  }
+
+  private async find(id: string): Promise<ReportRecord | null> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+
+    for (const line of text.split('\n')) {
+      if (line.trim() === '') continue;
+      const record: ReportRecord = JSON.parse(line);
+      if (record.id === id) return record;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,966 @@
+import {
+  ApplicantData,
+  DocumentImage,
+  EligibilityPolicy,
+  ExtractedData,
+  FieldCorrections,
+  EligibilityRule,
+  RuleComparison,
+  RuleCondition,
+  RuleEffect,
+  RuleField,
+  RiskModelSettings,
+  RuleOperator,
+} from './types';
+import { DEFAULT_RISK_MODEL } from './risk-model';
+import { FIELD_LABELS } from './document-validator';
+import { CORRECTABLE_FIELDS, CorrectableField } from './manual-corrections';
+import { CountryRegistry, COUNTRY_GROUPS } from './country-registry';
+import { DOCUMENT_SIDES } from './document-merger';
+import { NAME_MATCH_GRADES } from './name-matcher';
+import { DateKind, PartialDates } from './partial-date';
+import { VIZDateParser } from './viz-date-parser';
+import type { PolicyVersionInput } from './policy-store';
+import type { ReportFormat } from './report-generator';
+import { InvalidResultTokenError, ResultToken, VerifiedReading } from './result-token';
+
+export interface FieldError {
+  /** Location of the field in the body, e.g. `applicantData.dateOfBirth`. */
+  path: string;
+  message: string;
+}
+
+export class RequestValidationError extends Error {
+  constructor(public errors: FieldError[]) {
+    super(errors.map(e => `${e.path}: ${e.message}`).join('; '));
+    this.name = 'RequestValidationError';
+  }
+}
+
+/** A /api/verify body after validation and normalisation. */
+export interface VerifyRequest {
+  imageData?: string | Buffer;
+  images?: DocumentImage[];
+  applicant: ApplicantData;
+  policyId?: string;
+  policyVersion?: number;
+  /** Queue the verification and return a job id instead of the result. */
+  async: boolean;
+  /** Receives the result of an asynchronous verification; implies `async`. */
+  callbackUrl?: string;
+}
+
+/** A /api/validate body after validation and normalisation. */
+export interface ValidateRequest {
+  /** The server's earlier reading, from the body's `resultToken`. */
+  reading: VerifiedReading;
+  corrections: FieldCorrections;
+  applicant: ApplicantData;
+  policyId?: string;
+  policyVersion?: number;
+}
+
+/** A /api/reports body: the reading to re-check, as for /api/validate, plus report options. */
+export interface ReportRequest extends ValidateRequest {
+  /** Image of the document, reduced to a thumbnail on the report. */
+  thumbnail?: string | Buffer;
+  format: ReportFormat;
+}
+
+/** A /api/batch upload: the manifest and archive parts plus the policy to apply. */
+export interface BatchRequest {
+  manifest: { fileName: string; text: string };
+  documents: Buffer;
+  policyId?: string;
+  policyVersion?: number;
+}
+
+type RuleValueKind = 'scalar' | 'list' | 'group' | 'number' | 'none';
+
+const RULE_FIELDS: { [field in RuleField]: true } = {
+  'document.documentType': true,
+  'document.documentNumber': true,
+  'document.nationality': true,
+  'document.issuingCountry': true,
+  'document.sex': true,
+  'document.age': true,
+  'document.monthsValid': true,
+  'document.monthsValidAfterStay': true,
+  'applicant.nationality': true,
+  'applicant.intendedVisaType': true,
+  'applicant.intendedStayDays': true,
+};
+
+const RULE_OPERATORS: { [operator in RuleOperator]: RuleValueKind } = {
+  equals: 'scalar',
+  notEquals: 'scalar',
+  in: 'list',
+  notIn: 'list',
+  inGroup: 'group',
+  lessThan: 'number',
+  atMost: 'number',
+  greaterThan: 'number',
+  atLeast: 'number',
+  exists: 'none',
+};
+
+const RULE_EFFECTS: { [effect in RuleEffect]: true } = {
+  pass: true,
+  fail: true,
+  warn: true,
+  requireDocument: true,
+};
+
+const VERIFY_FIELDS = ['imageData', 'images', 'applicantData', 'policyId', 'policyVersion', 'async', 'callbackUrl'];
+
+const VALIDATE_FIELDS = ['resultToken', 'corrections', 'applicantData', 'policyId', 'policyVersion'];
+
+const REPORT_FIELDS = [...VALIDATE_FIELDS, 'thumbnail', 'format'];
+
+const REPORT_FORMATS: ReportFormat[] = ['html', 'pdf'];
+
+const BATCH_FIELDS = ['manifest', 'documents', 'policyId', 'policyVersion'];
+
+const CORRECTION_DATE_KINDS: { [field: string]: DateKind } = {
+  dateOfBirth: 'birth',
+  issueDate: 'issue',
+  expiryDate: 'expiry',
+};
+
+const APPLICANT_FIELDS: (keyof ApplicantData)[] = [
+  'name',
+  'dateOfBirth',
+  'passportNumber',
+  'nationality',
+  'intendedVisaType',
+  'intendedStayDays',
+  'supportingDocuments',
+];
+
+const POLICY_FIELDS: (keyof EligibilityPolicy)[] = [
+  'minAge',
+  'maxAge',
+  'allowedNationalities',
+  'blockedNationalities',
+  'requiredDocumentTypes',
+  'minValidityMonths',
+  'minNameMatchGrade',
+  'rules',
+  'riskModel',
+  'visaTypeRequirements',
+];
+
+const RISK_MODEL_FIELDS: (keyof RiskModelSettings)[] = [
+  'weights',
+  'fieldWeights',
+  'criticalFields',
+  'minFieldConfidence',
+  'minOverallConfidence',
+  'reviewThreshold',
+  'rejectThreshold',
+];
+
+const POLICY_VERSION_FIELDS: (keyof PolicyVersionInput)[] = [
+  'name',
+  'description',
+  'policy',
+  'effectiveFrom',
+  'effectiveUntil',
+];
+
+/** Deepest nesting of all/any/not accepted in a rule condition. */
+const MAX_CONDITION_DEPTH = 10;
+
+// Object keys that cannot name a visa type without reaching Object.prototype.
+const RESERVED_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !Buffer.isBuffer(value);
+}
+
+function isOneOf<T extends string>(value: unknown, options: readonly T[]): value is T {
+  return (options as readonly unknown[]).includes(value);
+}
+
+/**
+ * Collects every problem with a body rather than stopping at the first, so
+ * a client can fix them in one round trip.
+ */
+class Errors {
+  readonly list: FieldError[] = [];
+
+  add(path: string, message: string): void {
+    this.list.push({ path, message });
+  }
+
+  unknownKeys(value: { [key: string]: unknown }, allowed: string[], path: string): void {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) {
+        this.add(join(path, key), 'Unknown field');
+      }
+    }
+  }
+
+  throwIfAny(): void {
+    if (this.list.length > 0) {
+      throw new RequestValidationError(this.list);
+    }
+  }
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Whole numbers arrive as JSON numbers or, from multipart forms, as
+ * strings.
+ */
+function toInteger(value: unknown): number | null {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isInteger(number) ? number : null;
+}
+
+export class RequestSchema {
+  /**
+   * Validates a /api/verify body, JSON or multipart, and normalises the
+   * applicant's details. Unknown fields are rejected so that typos such as
+   * `policyVerison` do not silently fall back to defaults.
+   */
+  static parseVerifyRequest(body: unknown, today: Date = new Date()): VerifyRequest {
+    const errors = new Errors();
+    if (!isObject(body)) {
+      errors.add('', 'Request body must be an object');
+      errors.throwIfAny();
+    }
+    const input = body as { [key: string]: unknown };
+
+    if (input.eligibilityPolicy !== undefined) {
+      errors.add(
+        'eligibilityPolicy',
+        'Inline policies are not accepted; store the policy through /api/policies and send its policyId'
+      );
+    }
+    errors.unknownKeys(input, [...VERIFY_FIELDS, 'eligibilityPolicy'], '');
+
+    const request: VerifyRequest = {
+      applicant: this.applicant(input.applicantData, 'applicantData', errors, today),
+      async: false,
+    };
+
+    if (input.imageData !== undefined && input.images !== undefined) {
+      errors.add('images', 'Send either imageData or images, not both');
+    } else if (input.images !== undefined) {
+      request.images = this.images(input.images, errors);
+    } else if (input.imageData !== undefined) {
+      if (this.isImageData(input.imageData)) {
+        request.imageData = input.imageData;
+      } else {
+        errors.add('imageData', 'Must be a non-empty data URL or base64 string');
+      }
+    } else {
+      errors.add('imageData', 'Image data is required');
+    }
+
+    Object.assign(request, this.policySelection(input, errors));
+
+    // Multipart forms send flags as strings.
+    if (input.async !== undefined && input.async !== '') {
+      if (input.async === true || input.async === 'true') {
+        request.async = true;
+      } else if (input.async !== false && input.async !== 'false') {
+        errors.add('async', 'Must be true or false');
+      }
+    }
+
+    if (input.callbackUrl !== undefined && input.callbackUrl !== '') {
+      if (this.isCallbackUrl(input.callbackUrl)) {
+        request.callbackUrl = input.callbackUrl;
+        request.async = true;
+      } else {
+        errors.add('callbackUrl', 'Must be an absolute http or https URL');
+      }
+    }
+
+    errors.throwIfAny();
+    return request;
+  }
+
+  /**
+   * Validates a /api/validate body: the result token of an earlier
+   * verification, the reviewer's corrections to its data, and the applicant
+   * and policy to check it against. Corrections are normalised like
+   * applicant details.
+   */
+  static parseValidateRequest(body: unknown, today: Date = new Date()): ValidateRequest {
+    const errors = new Errors();
+    if (!isObject(body)) {
+      errors.add('', 'Request body must be an object');
+      errors.throwIfAny();
+    }
+    const input = body as { [key: string]: unknown };
+    errors.unknownKeys(input, VALIDATE_FIELDS, '');
+
+    const request = this.validation(input, errors, today);
+    errors.throwIfAny();
+    return request;
+  }
+
+  /**
+   * Validates a /api/reports body. The report is built from a fresh check
+   * of the token's data, so it takes the same fields as /api/validate.
+   */
+  static parseReportRequest(body: unknown, today: Date = new Date()): ReportRequest {
+    const errors = new Errors();
+    if (!isObject(body)) {
+      errors.add('', 'Request body must be an object');
+      errors.throwIfAny();
+    }
+    const input = body as { [key: string]: unknown };
+    errors.unknownKeys(input, REPORT_FIELDS, '');
+
+    const request: ReportRequest = { ...this.validation(input, errors, today), format: 'html' };
+
+    if (input.thumbnail !== undefined && input.thumbnail !== '') {
+      if (this.isImageData(input.thumbnail)) {
+        request.thumbnail = input.thumbnail;
+      } else {
+        errors.add('thumbnail', 'Must be a data URL or base64 string');
+      }
+    }
+
+    if (input.format !== undefined) {
+      if (isOneOf(input.format, REPORT_FORMATS)) {
+        request.format = input.format;
+      } else {
+        errors.add('format', `Must be one of ${REPORT_FORMATS.join(', ')}`);
+      }
+    }
+
+    errors.throwIfAny();
+    return request;
+  }
+
+  private static validation(input: { [key: string]: unknown }, errors: Errors, today: Date): ValidateRequest {
+    const reading = this.resultToken(input.resultToken, errors);
+    return {
+      reading,
+      corrections: this.corrections(input.corrections, reading.extractedData, errors),
+      applicant: this.applicant(input.applicantData, 'applicantData', errors, today),
+      ...this.policySelection(input, errors),
+    };
+  }
+
+  /**
+   * Validates the parts of a /api/batch upload. Applicant rows are checked
+   * one by one when the batch is prepared, so that a bad row fails alone.
+   */
+  static parseBatchRequest(body: unknown): BatchRequest {
+    const errors = new Errors();
+    if (!isObject(body)) {
+      errors.add('', 'Request body must be an object');
+      errors.throwIfAny();
+    }
+    const input = body as { [key: string]: unknown };
+    errors.unknownKeys(input, BATCH_FIELDS, '');
+
+    const file = (key: 'manifest' | 'documents'): { fileName: string; data: Buffer } | null => {
+      const part = input[key];
+      if (isObject(part) && typeof part.fileName === 'string' && Buffer.isBuffer(part.data) && part.data.length > 0) {
+        return part as { fileName: string; data: Buffer };
+      }
+      errors.add(key, part === undefined ? 'Required' : 'Must be a non-empty file');
+      return null;
+    };
+
+    const manifest = file('manifest');
+    const documents = file('documents');
+    const request: BatchRequest = {
+      manifest: { fileName: manifest?.fileName || '', text: manifest ? manifest.data.toString('utf8') : '' },
+      documents: documents ? documents.data : Buffer.alloc(0),
+      ...this.policySelection(input, errors),
+    };
+
+    errors.throwIfAny();
+    return request;
+  }
+
+  private static policySelection(
+    input: { [key: string]: unknown },
+    errors: Errors
+  ): { policyId?: string; policyVersion?: number } {
+    const selection: { policyId?: string; policyVersion?: number } = {};
+
+    if (input.policyId !== undefined && input.policyId !== '') {
+      if (typeof input.policyId === 'string') {
+        selection.policyId = input.policyId;
+      } else {
+        errors.add('policyId', 'Must be a string');
+      }
+    }
+
+    if (input.policyVersion !== undefined && input.policyVersion !== '') {
+      const version = toInteger(input.policyVersion);
+      if (version === null || version < 1) {
+        errors.add('policyVersion', 'Must be a whole number of at least 1');
+      } else {
+        selection.policyVersion = version;
+      }
+    }
+
+    return selection;
+  }
+
+  /**
+   * Extracted data is never taken from the client: it comes from a token
+   * this server signed when it read the document.
+   */
+  private static resultToken(value: unknown, errors: Errors): VerifiedReading {
+    const empty: VerifiedReading = { extractedData: {} as ExtractedData, documents: [], issuedAt: '' };
+    if (typeof value !== 'string' || value === '') {
+      errors.add('resultToken', value === undefined ? 'Required' : 'Must be a string');
+      return empty;
+    }
+    try {
+      return ResultToken.read(value);
+    } catch (error) {
+      if (!(error instanceof InvalidResultTokenError)) throw error;
+      errors.add('resultToken', error.message);
+      return empty;
+    }
+  }
+
+  /**
+   * Names are upper-cased, country names converted to codes and dates read
+   * in the same formats as the applicant's date of birth. An empty value
+   * marks the field as not found.
+   */
+  private static corrections(value: unknown, data: ExtractedData, errors: Errors): FieldCorrections {
+    if (value === undefined) {
+      return {};
+    }
+    if (!isObject(value)) {
+      errors.add('corrections', 'Must be an object of field values');
+      return {};
+    }
+    errors.unknownKeys(value, [...CORRECTABLE_FIELDS], 'corrections');
+
+    const corrections: FieldCorrections = {};
+    for (const [field, raw] of Object.entries(value)) {
+      if (!CORRECTABLE_FIELDS.includes(field as CorrectableField)) continue;
+      const path = join('corrections', field);
+      if (typeof raw !== 'string') {
+        errors.add(path, 'Must be a string');
+        continue;
+      }
+
+      const text = raw.trim().replace(/\s+/g, ' ');
+      const normalised = text === '' ? '' : this.correctionValue(field as CorrectableField, text, data);
+      if (normalised === null) {
+        errors.add(path, `"${text}" is not a valid ${FIELD_LABELS[field].toLowerCase()}`);
+      } else {
+        corrections[field] = normalised;
+      }
+    }
+    return corrections;
+  }
+
+  private static correctionValue(field: CorrectableField, text: string, data: ExtractedData): string | null {
+    const kind = CORRECTION_DATE_KINDS[field];
+    if (kind) {
+      const date = PartialDates.parse(text) || VIZDateParser.parse(text, kind, data.issuingCountry?.value)?.date;
+      return date ? PartialDates.format(date) : null;
+    }
+
+    switch (field) {
+      case 'nationality':
+      case 'issuingCountry':
+        return CountryRegistry.fromName(text);
+      case 'sex':
+        return /^[MFX<]$/i.test(text) ? text.toUpperCase().replace('<', 'X') : null;
+      case 'documentType':
+        return /^[A-Z][A-Z<]?$/i.test(text) ? text.toUpperCase() : null;
+      case 'documentNumber':
+        return /^[A-Z0-9 ]+$/i.test(text) ? text.replace(/ /g, '').toUpperCase() : null;
+      default:
+        return text.toUpperCase();
+    }
+  }
+
+  /** Validates the body of a policy create or new-version request. */
+  static parsePolicyVersionInput(body: unknown, allowed: string[] = []): PolicyVersionInput {
+    const errors = new Errors();
+    if (!isObject(body)) {
+      errors.add('', 'Request body must be an object');
+      errors.throwIfAny();
+    }
+    const input = body as { [key: string]: unknown };
+    errors.unknownKeys(input, [...POLICY_VERSION_FIELDS, ...allowed], '');
+
+    if (typeof input.name !== 'string' || input.name.trim() === '') {
+      errors.add('name', 'Policy name is required');
+    }
+    if (input.description !== undefined && typeof input.description !== 'string') {
+      errors.add('description', 'Must be a string');
+    }
+    for (const key of ['effectiveFrom', 'effectiveUntil'] as const) {
+      const date = input[key];
+      const parsed = typeof date === 'string' ? PartialDates.parse(date) : null;
+      if (date !== undefined && (!parsed || !PartialDates.isComplete(parsed))) {
+        errors.add(key, 'Must be a YYYY-MM-DD date');
+      }
+    }
+
+    const policy = this.policy(input.policy, 'policy', errors);
+    errors.throwIfAny();
+
+    return {
+      name: typeof input.name === 'string' ? input.name.trim() : '',
+      ...(typeof input.description === 'string' ? { description: input.description } : {}),
+      policy,
+      ...(typeof input.effectiveFrom === 'string' ? { effectiveFrom: input.effectiveFrom } : {}),
+      ...(typeof input.effectiveUntil === 'string' ? { effectiveUntil: input.effectiveUntil } : {}),
+    };
+  }
+
+  /** Validates and normalises applicant details on their own, e.g. one batch manifest row. */
+  static parseApplicant(body: unknown, today: Date = new Date()): ApplicantData {
+    const errors = new Errors();
+    const applicant = this.applicant(body, '', errors, today);
+    errors.throwIfAny();
+    return applicant;
+  }
+
+  /** Validates an eligibility policy, normalising country names to codes. */
+  static parsePolicy(body: unknown): EligibilityPolicy {
+    const errors = new Errors();
+    const policy = this.policy(body, '', errors);
+    errors.throwIfAny();
+    return policy;
+  }
+
+  /**
+   * Names are trimmed and upper-cased, country names converted to codes, and
+   * dates of birth accepted in the formats printed on documents ("15 MAY
+   * 1990", "15/05/1990", "May 15, 1990") before conversion to YYYY-MM-DD.
+   * Numeric dates are read in the nationality's usual order.
+   */
+  private static applicant(value: unknown, path: string, errors: Errors, today: Date): ApplicantData {
+    if (!isObject(value)) {
+      errors.add(path, 'Applicant data is required');
+      return {} as ApplicantData;
+    }
+    errors.unknownKeys(value, APPLICANT_FIELDS, path);
+
+    const text = (key: keyof ApplicantData): string | null => {
+      const field = value[key];
+      if (typeof field === 'string' && field.trim() !== '') {
+        return field.trim();
+      }
+      errors.add(join(path, key), field === undefined || field === '' ? 'Required' : 'Must be a non-empty string');
+      return null;
+    };
+
+    const name = text('name');
+    const passportNumber = text('passportNumber');
+    const nationalityText = text('nationality');
+    const dateText = text('dateOfBirth');
+
+    const nationality = nationalityText === null ? null : CountryRegistry.fromName(nationalityText);
+    if (nationalityText !== null && nationality === null) {
+      errors.add(join(path, 'nationality'), `"${nationalityText}" is not a known country code or name`);
+    }
+
+    const parsedDate = dateText === null ? null : VIZDateParser.parse(dateText, 'birth', nationality || undefined);
+    if (dateText !== null && !parsedDate) {
+      errors.add(join(path, 'dateOfBirth'), `"${dateText}" is not a recognised date`);
+    } else if (parsedDate && PartialDates.earliest(parsedDate.date).getTime() > today.getTime()) {
+      errors.add(join(path, 'dateOfBirth'), 'Is in the future');
+    }
+
+    const applicant: ApplicantData = {
+      name: (name || '').replace(/\s+/g, ' ').toUpperCase(),
+      dateOfBirth: parsedDate ? PartialDates.format(parsedDate.date) : '',
+      passportNumber: (passportNumber || '').replace(/\s+/g, '').toUpperCase(),
+      nationality: nationality || '',
+      intendedVisaType: 'tourist',
+    };
+
+    if (value.intendedVisaType !== undefined && value.intendedVisaType !== '') {
+      if (typeof value.intendedVisaType === 'string') {
+        applicant.intendedVisaType = value.intendedVisaType.trim().toLowerCase();
+      } else {
+        errors.add(join(path, 'intendedVisaType'), 'Must be a string');
+      }
+    }
+
+    if (value.intendedStayDays !== undefined && value.intendedStayDays !== '') {
+      const days = toInteger(value.intendedStayDays);
+      if (days === null || days < 0) {
+        errors.add(join(path, 'intendedStayDays'), 'Must be a whole number of days');
+      } else {
+        applicant.intendedStayDays = days;
+      }
+    }
+
+    // Multipart forms send the list as one comma-separated field.
+    const documents = value.supportingDocuments;
+    const list = typeof documents === 'string' ? documents.split(',') : documents;
+    if (list !== undefined) {
+      if (Array.isArray(list) && list.every(item => typeof item === 'string')) {
+        applicant.supportingDocuments = list.map(item => item.trim()).filter(Boolean);
+      } else {
+        errors.add(join(path, 'supportingDocuments'), 'Must be a list of strings');
+      }
+    }
+
+    return applicant;
+  }
+
+  private static images(value: unknown, errors: Errors): DocumentImage[] | undefined {
+    if (!Array.isArray(value) || value.length === 0) {
+      errors.add('images', 'Must be a non-empty array of { side, imageData }');
+      return undefined;
+    }
+
+    return value.map((image, i) => {
+      const path = join('images', i);
+      if (!isObject(image)) {
+        errors.add(path, 'Must be an object of { side, imageData }');
+        return image;
+      }
+      errors.unknownKeys(image, ['side', 'imageData'], path);
+      if (!isOneOf(image.side, DOCUMENT_SIDES)) {
+        errors.add(join(path, 'side'), `Must be one of ${DOCUMENT_SIDES.join(', ')}`);
+      }
+      if (!this.isImageData(image.imageData)) {
+        errors.add(join(path, 'imageData'), 'Must be a non-empty data URL or base64 string');
+      }
+      return { side: image.side, imageData: image.imageData } as DocumentImage;
+    });
+  }
+
+  private static isCallbackUrl(value: unknown): value is string {
+    if (typeof value !== 'string') return false;
+    try {
+      const url = new URL(value);
+      return url.protocol === 'https:' || url.protocol === 'http:';
+    } catch {
+      return false;
+    }
+  }
+
+  private static isImageData(value: unknown): value is string | Buffer {
+    return (typeof value === 'string' || Buffer.isBuffer(value)) && value.length > 0;
+  }
+
+  private static policy(value: unknown, path: string, errors: Errors): EligibilityPolicy {
+    if (!isObject(value)) {
+      errors.add(path || 'policy', 'Policy must be an object');
+      return {} as EligibilityPolicy;
+    }
+    errors.unknownKeys(value, POLICY_FIELDS, path);
+
+    const integer = (key: 'minAge' | 'maxAge' | 'minValidityMonths'): number => {
+      const number = value[key];
+      if (typeof number !== 'number' || !Number.isInteger(number) || number < 0) {
+        errors.add(join(path, key), number === undefined ? 'Required' : 'Must be a whole number of at least 0');
+        // NaN fails every comparison, so the minAge/maxAge check adds no second error.
+        return NaN;
+      }
+      return number;
+    };
+
+    const policy: EligibilityPolicy = {
+      minAge: integer('minAge'),
+      maxAge: integer('maxAge'),
+      allowedNationalities: this.countries(value.allowedNationalities, join(path, 'allowedNationalities'), errors, true),
+      blockedNationalities: this.countries(value.blockedNationalities, join(path, 'blockedNationalities'), errors, true),
+      requiredDocumentTypes: this.strings(value.requiredDocumentTypes, join(path, 'requiredDocumentTypes'), errors, true),
+      minValidityMonths: integer('minValidityMonths'),
+      visaTypeRequirements: this.visaTypeRequirements(value.visaTypeRequirements, join(path, 'visaTypeRequirements'), errors),
+    };
+
+    if (policy.minAge > policy.maxAge) {
+      errors.add(join(path, 'maxAge'), 'Must not be below minAge');
+    }
+
+    if (value.minNameMatchGrade !== undefined) {
+      if (isOneOf(value.minNameMatchGrade, NAME_MATCH_GRADES)) {
+        policy.minNameMatchGrade = value.minNameMatchGrade;
+      } else {
+        errors.add(join(path, 'minNameMatchGrade'), `Must be one of ${NAME_MATCH_GRADES.join(', ')}`);
+      }
+    }
+
+    if (value.rules !== undefined) {
+      policy.rules = this.rules(value.rules, join(path, 'rules'), errors);
+    }
+
+    if (value.riskModel !== undefined) {
+      policy.riskModel = this.riskModel(value.riskModel, join(path, 'riskModel'), errors);
+    }
+
+    return policy;
+  }
+
+  /**
+   * Weights are checked against the known reason codes and fields, and
+   * thresholds against the 0-100 range of the risk score.
+   */
+  private static riskModel(value: unknown, path: string, errors: Errors): RiskModelSettings {
+    if (!isObject(value)) {
+      errors.add(path, 'Must be an object');
+      return {};
+    }
+    errors.unknownKeys(value, RISK_MODEL_FIELDS, path);
+
+    const settings: RiskModelSettings = {};
+    const fields = Object.keys(FIELD_LABELS);
+    const weights = (key: 'weights' | 'fieldWeights', allowed: string[]) => {
+      const entries = value[key];
+      if (entries === undefined) return undefined;
+      if (!isObject(entries)) {
+        errors.add(join(path, key), 'Must be an object of numbers');
+        return undefined;
+      }
+      errors.unknownKeys(entries, allowed, join(path, key));
+      const valid: { [name: string]: number } = {};
+      for (const [name, weight] of Object.entries(entries)) {
+        if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+          errors.add(join(join(path, key), name), 'Must be a number of at least 0');
+        } else if (allowed.includes(name)) {
+          valid[name] = weight;
+        }
+      }
+      return valid;
+    };
+    const reasonWeights = weights('weights', Object.keys(DEFAULT_RISK_MODEL.weights));
+    if (reasonWeights) settings.weights = reasonWeights;
+    const fieldWeights = weights('fieldWeights', fields);
+    if (fieldWeights) settings.fieldWeights = fieldWeights;
+
+    if (value.criticalFields !== undefined) {
+      settings.criticalFields = this.strings(value.criticalFields, join(path, 'criticalFields'), errors, false);
+      settings.criticalFields.forEach((field, i) => {
+        if (!fields.includes(field)) {
+          errors.add(join(join(path, 'criticalFields'), i), `Must be one of ${fields.join(', ')}`);
+        }
+      });
+    }
+
+    for (const key of ['minFieldConfidence', 'minOverallConfidence', 'reviewThreshold', 'rejectThreshold'] as const) {
+      const number = value[key];
+      if (number === undefined) continue;
+      if (typeof number === 'number' && number >= 0 && number <= 100) {
+        settings[key] = number;
+      } else {
+        errors.add(join(path, key), 'Must be a number from 0 to 100');
+      }
+    }
+
+    const review = value.reviewThreshold ?? DEFAULT_RISK_MODEL.reviewThreshold;
+    const reject = value.rejectThreshold ?? DEFAULT_RISK_MODEL.rejectThreshold;
+    if (typeof review === 'number' && typeof reject === 'number' && review > reject) {
+      errors.add(join(path, 'rejectThreshold'), 'Must not be below reviewThreshold');
+    }
+
+    return settings;
+  }
+
+  private static visaTypeRequirements(
+    value: unknown,
+    path: string,
+    errors: Errors
+  ): EligibilityPolicy['visaTypeRequirements'] {
+    if (!isObject(value)) {
+      errors.add(path, value === undefined ? 'Required' : 'Must be an object keyed by visa type');
+      return {};
+    }
+
+    const requirements: EligibilityPolicy['visaTypeRequirements'] = {};
+    for (const [visaType, entry] of Object.entries(value)) {
+      const entryPath = join(path, visaType);
+      if (RESERVED_KEYS.includes(visaType.toLowerCase())) {
+        errors.add(entryPath, 'Is not a valid visa type');
+        continue;
+      }
+      if (!isObject(entry)) {
+        errors.add(entryPath, 'Must be an object');
+        continue;
+      }
+      errors.unknownKeys(entry, ['minAge', 'allowedNationalities', 'additionalRequirements'], entryPath);
+
+      const requirement: EligibilityPolicy['visaTypeRequirements'][string] = {};
+      if (entry.minAge !== undefined) {
+        if (typeof entry.minAge === 'number' && Number.isInteger(entry.minAge) && entry.minAge >= 0) {
+          requirement.minAge = entry.minAge;
+        } else {
+          errors.add(join(entryPath, 'minAge'), 'Must be a whole number of at least 0');
+        }
+      }
+      if (entry.allowedNationalities !== undefined) {
+        requirement.allowedNationalities = this.countries(
+          entry.allowedNationalities,
+          join(entryPath, 'allowedNationalities'),
+          errors,
+          false
+        );
+      }
+      if (entry.additionalRequirements !== undefined) {
+        requirement.additionalRequirements = this.strings(
+          entry.additionalRequirements,
+          join(entryPath, 'additionalRequirements'),
+          errors,
+          false
+        );
+      }
+      requirements[visaType.toLowerCase()] = requirement;
+    }
+    return requirements;
+  }
+
+  private static rules(value: unknown, path: string, errors: Errors): EligibilityRule[] {
+    if (!Array.isArray(value)) {
+      errors.add(path, 'Must be an array of rules');
+      return [];
+    }
+
+    const ids = new Set<string>();
+    return value.map((rule, i) => {
+      const rulePath = join(path, i);
+      if (!isObject(rule)) {
+        errors.add(rulePath, 'Must be a rule object');
+        return rule;
+      }
+      errors.unknownKeys(rule, ['id', 'description', 'when', 'effect', 'document', 'message'], rulePath);
+
+      if (typeof rule.id !== 'string' || rule.id.trim() === '') {
+        errors.add(join(rulePath, 'id'), 'Required');
+      } else if (ids.has(rule.id)) {
+        errors.add(join(rulePath, 'id'), `Duplicate rule id "${rule.id}"`);
+      } else {
+        ids.add(rule.id);
+      }
+      if (typeof rule.description !== 'string' || rule.description.trim() === '') {
+        errors.add(join(rulePath, 'description'), 'Required');
+      }
+      if (typeof rule.effect !== 'string' || !Object.hasOwn(RULE_EFFECTS, rule.effect)) {
+        errors.add(join(rulePath, 'effect'), `Must be one of ${Object.keys(RULE_EFFECTS).join(', ')}`);
+      }
+      if (rule.effect === 'requireDocument' && (typeof rule.document !== 'string' || rule.document.trim() === '')) {
+        errors.add(join(rulePath, 'document'), "Required for 'requireDocument' rules");
+      } else if (rule.document !== undefined && typeof rule.document !== 'string') {
+        errors.add(join(rulePath, 'document'), 'Must be a string');
+      }
+      if (rule.message !== undefined && typeof rule.message !== 'string') {
+        errors.add(join(rulePath, 'message'), 'Must be a string');
+      }
+
+      return { ...rule, when: this.condition(rule.when, join(rulePath, 'when'), errors, 0) } as EligibilityRule;
+    });
+  }
+
+  private static condition(value: unknown, path: string, errors: Errors, depth: number): RuleCondition {
+    if (!isObject(value)) {
+      errors.add(path, value === undefined ? 'Required' : 'Must be a condition object');
+      return value as RuleCondition;
+    }
+    if (depth > MAX_CONDITION_DEPTH) {
+      errors.add(path, `Conditions may be nested at most ${MAX_CONDITION_DEPTH} deep`);
+      return value as RuleCondition;
+    }
+
+    for (const key of ['all', 'any'] as const) {
+      if (key in value) {
+        errors.unknownKeys(value, [key], path);
+        const list = value[key];
+        if (!Array.isArray(list) || list.length === 0) {
+          errors.add(join(path, key), 'Must be a non-empty array of conditions');
+          return value as RuleCondition;
+        }
+        return {
+          [key]: list.map((item, i) => this.condition(item, join(join(path, key), i), errors, depth + 1)),
+        } as RuleCondition;
+      }
+    }
+
+    if ('not' in value) {
+      errors.unknownKeys(value, ['not'], path);
+      return { not: this.condition(value.not, join(path, 'not'), errors, depth + 1) };
+    }
+
+    errors.unknownKeys(value, ['field', 'operator', 'value'], path);
+    // Own properties only: 'constructor' or 'toString' must not pass as a field or operator.
+    if (typeof value.field !== 'string' || !Object.hasOwn(RULE_FIELDS, value.field)) {
+      errors.add(join(path, 'field'), `Must be one of ${Object.keys(RULE_FIELDS).join(', ')}`);
+    }
+    const kind: RuleValueKind | undefined =
+      typeof value.operator === 'string' && Object.hasOwn(RULE_OPERATORS, value.operator)
+        ? RULE_OPERATORS[value.operator as RuleOperator]
+        : undefined;
+    if (!kind) {
+      errors.add(join(path, 'operator'), `Must be one of ${Object.keys(RULE_OPERATORS).join(', ')}`);
+      return value as RuleCondition;
+    }
+
+    const valuePath = join(path, 'value');
+    const operand = value.value;
+    switch (kind) {
+      case 'scalar':
+        if (typeof operand !== 'string' && typeof operand !== 'number') {
+          errors.add(valuePath, `'${value.operator}' needs a string or number`);
+        }
+        break;
+      case 'list':
+        if (!Array.isArray(operand) || !operand.every(item => typeof item === 'string')) {
+          errors.add(valuePath, `'${value.operator}' needs a list of strings`);
+        }
+        break;
+      case 'group':
+        if (typeof operand !== 'string' || !Object.hasOwn(COUNTRY_GROUPS, operand.toUpperCase())) {
+          errors.add(valuePath, `'inGroup' needs one of ${Object.keys(COUNTRY_GROUPS).join(', ')}`);
+        }
+        break;
+      case 'number':
+        if (typeof operand !== 'number' || !Number.isFinite(operand)) {
+          errors.add(valuePath, `'${value.operator}' needs a number`);
+        }
+        break;
+      case 'none':
+        if (operand !== undefined) {
+          errors.add(valuePath, "'exists' takes no value");
+        }
+        break;
+    }
+
+    return {
+      field: value.field as RuleField,
+      operator: value.operator as RuleOperator,
+      ...(operand !== undefined ? { value: operand as RuleComparison['value'] } : {}),
+    };
+  }
+
+  private static strings(value: unknown, path: string, errors: Errors, required: boolean): string[] {
+    if (value === undefined && !required) {
+      return [];
+    }
+    if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+      errors.add(path, value === undefined ? 'Required' : 'Must be a list of strings');
+      return [];
+    }
+    return value.map(item => item.trim());
+  }
+
+  /** Country lists accept codes or names; names are stored as codes. */
+  private static countries(value: unknown, path: string, errors: Errors, required: boolean): string[] {
+    return this.strings(value, path, errors, required).map((country, i) => {
+      const code = CountryRegistry.fromName(country);
+      if (!code) {
+        errors.add(join(path, i), `"${country}" is not a known country code or name`);
+      }
+      return code || country;
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import { ExtractedData } from './types';
+
+/** What a result token vouches for: data this server extracted, and the files it read. */
+export interface VerifiedReading {
+  extractedData: ExtractedData;
+  /** SHA-256 of each uploaded file, in upload order. */
+  documents: string[];
+  /** When the files were read; corrections keep the original time. */
+  issuedAt: string;
+}
+
+export class InvalidResultTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidResultTokenError';
+  }
+}
+
+export interface ResultTokenConfig {
+  secret: string;
+  maxAgeMs: number;
+}
+
+// Without a configured secret, tokens are only good until the server restarts.
+const PROCESS_SECRET = crypto.randomBytes(32).toString('hex');
+
+export function loadResultTokenConfig(): ResultTokenConfig {
+  return {
+    secret: process.env.RESULT_TOKEN_SECRET || PROCESS_SECRET,
+    maxAgeMs: Math.max(1, parseInt(process.env.RESULT_TOKEN_MAX_AGE_MS || String(24 * 60 * 60 * 1000))),
+  };
+}
+
+/**
+ * Signed, self-contained record of a verification's extracted data. It is
+ * returned with each result, and re-validation and reports accept only a
+ * token, never extracted data from the client. Format:
+ * `<base64url JSON>.<base64url HMAC-SHA256>`.
+ */
+export class ResultToken {
+  static digest(file: Buffer): string {
+    return crypto.createHash('sha256').update(file).digest('hex');
+  }
+
+  static issue(
+    extractedData: ExtractedData,
+    files: Buffer[],
+    config: ResultTokenConfig = loadResultTokenConfig(),
+    now: Date = new Date()
+  ): string {
+    return this.seal(
+      { extractedData, documents: files.map(file => this.digest(file)), issuedAt: now.toISOString() },
+      config.secret
+    );
+  }
+
+  /** A token for corrected data, read from the same files as `reading`. */
+  static reissue(
+    reading: VerifiedReading,
+    extractedData: ExtractedData,
+    config: ResultTokenConfig = loadResultTokenConfig()
+  ): string {
+    return this.seal({ ...reading, extractedData }, config.secret);
+  }
+
+  static read(token: string, config: ResultTokenConfig = loadResultTokenConfig(), now: Date = new Date()): VerifiedReading {
+    const [body, signature, ...rest] = token.split('.');
+    if (!body || !signature || rest.length > 0) {
+      throw new InvalidResultTokenError('Malformed result token');
+    }
+
+    const expected = Buffer.from(this.sign(body, config.secret), 'base64url');
+    const given = Buffer.from(signature, 'base64url');
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      throw new InvalidResultTokenError('Result token was not issued by this server');
+    }
+
+    const reading: VerifiedReading = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (now.getTime() - Date.parse(reading.issuedAt) > config.maxAgeMs) {
+      throw new InvalidResultTokenError('Result token has expired; verify the document again');
+    }
+    return reading;
+  }
+
+  private static seal(reading: VerifiedReading, secret: string): string {
+    const body = Buffer.from(JSON.stringify(reading), 'utf8').toString('base64url');
+    return `${body}.${this.sign(body, secret)}`;
+  }
+
+  private static sign(body: string, secret: string): string {
+    return crypto.createHmac('sha256', secret).update(body).digest('base64url');
+  }
+}
@@ -0,0 +1,304 @@
+import {
+  ApplicantData,
+  DecisionOutcome,
+  DecisionReason,
+  DecisionReasonCode,
+  EligibilityCheck,
+  EligibilityPolicy,
+  ExtractedData,
+  ExtractedField,
+  RiskModelSettings,
+  ValidationCheck,
+  VerificationDecision,
+} from './types';
+import { CountryRegistry } from './country-registry';
+import { FIELD_LABELS } from './document-validator';
+import { CORRECTABLE_FIELDS, CorrectableField } from './manual-corrections';
+import { MRZValidator } from './mrz-validator';
+import { NameMatcher } from './name-matcher';
+import { VIZComparator } from './viz-comparator';
+
+export type RiskModelConfig = Required<RiskModelSettings> & {
+  weights: { [code in DecisionReasonCode]: number };
+};
+
+export const DEFAULT_RISK_MODEL: RiskModelConfig = {
+  weights: {
+    BLOCKED_NATIONALITY: 100,
+    NATIONALITY_NOT_ALLOWED: 60,
+    DOCUMENT_EXPIRED: 60,
+    CHECK_DIGIT_FAILED: 35,
+    NAME_MISMATCH: 60,
+    NAME_WEAK_MATCH: 25,
+    APPLICANT_DATA_MISMATCH: 40,
+    VISUAL_ZONE_MISMATCH: 40,
+    CROSS_IMAGE_CONFLICT: 30,
+    VALIDATION_FAILED: 30,
+    ELIGIBILITY_FAILED: 60,
+    POLICY_WARNING: 10,
+    CRITICAL_FIELD_MISSING: 25,
+    LOW_FIELD_CONFIDENCE: 15,
+    LOW_CONFIDENCE: 20,
+    CHECK_UNVERIFIED: 20,
+  },
+  fieldWeights: {
+    documentNumber: 3,
+    dateOfBirth: 3,
+    expiryDate: 3,
+    surname: 2,
+    nationality: 2,
+    givenNames: 1,
+    documentType: 1,
+    issuingCountry: 1,
+    sex: 1,
+    issueDate: 0.5,
+  },
+  criticalFields: ['documentNumber', 'dateOfBirth', 'expiryDate', 'surname', 'nationality'],
+  minFieldConfidence: 60,
+  minOverallConfidence: 70,
+  reviewThreshold: 20,
+  rejectThreshold: 60,
+};
+
+/**
+ * Reasons that describe missing or unreadable data rather than something
+ * found to be wrong. They can send an application to review but never
+ * reject it on their own.
+ */
+export const UNCERTAINTY_CODES: DecisionReasonCode[] = [
+  'CRITICAL_FIELD_MISSING',
+  'LOW_FIELD_CONFIDENCE',
+  'LOW_CONFIDENCE',
+  'CHECK_UNVERIFIED',
+];
+
+const VALIDATION_CODES: { [check: string]: DecisionReasonCode } = {
+  'Document Expiry': 'DOCUMENT_EXPIRED',
+  'Visual Zone / MRZ Consistency': 'VISUAL_ZONE_MISMATCH',
+  'Visual Zone / Barcode Consistency': 'VISUAL_ZONE_MISMATCH',
+  'Cross-Image Consistency': 'CROSS_IMAGE_CONFLICT',
+};
+
+const ELIGIBILITY_CODES: { [check: string]: DecisionReasonCode } = {
+  'Date of Birth Match': 'APPLICANT_DATA_MISMATCH',
+  'Passport Number Match': 'APPLICANT_DATA_MISMATCH',
+  'Nationality Match': 'APPLICANT_DATA_MISMATCH',
+};
+
+const MESSAGES: { [code in DecisionReasonCode]: string } = {
+  BLOCKED_NATIONALITY: 'Nationality is on the blocked list',
+  NATIONALITY_NOT_ALLOWED: 'Nationality is not in the allowed list',
+  DOCUMENT_EXPIRED: 'Document has expired',
+  CHECK_DIGIT_FAILED: 'MRZ check digits failed',
+  NAME_MISMATCH: 'Applicant name does not match the document',
+  NAME_WEAK_MATCH: 'Applicant name only weakly matches the document',
+  APPLICANT_DATA_MISMATCH: 'Applicant details differ from the document',
+  VISUAL_ZONE_MISMATCH: 'Printed fields disagree with the machine-readable data',
+  CROSS_IMAGE_CONFLICT: 'Images of the document disagree',
+  VALIDATION_FAILED: 'Document validation failed',
+  ELIGIBILITY_FAILED: 'Eligibility requirements not met',
+  POLICY_WARNING: 'Policy warnings raised',
+  CRITICAL_FIELD_MISSING: 'Critical fields not found',
+  LOW_FIELD_CONFIDENCE: 'Critical fields read with low confidence',
+  LOW_CONFIDENCE: 'Low overall confidence in extracted data',
+  CHECK_UNVERIFIED: 'Checks could not be completed',
+};
+
+/** Codes raised by one kind of check only, whose message needs no check list. */
+const SELF_DESCRIBING_CODES: DecisionReasonCode[] = [
+  'BLOCKED_NATIONALITY',
+  'NATIONALITY_NOT_ALLOWED',
+  'DOCUMENT_EXPIRED',
+  'NAME_MISMATCH',
+  'NAME_WEAK_MATCH',
+  'VISUAL_ZONE_MISMATCH',
+  'CROSS_IMAGE_CONFLICT',
+];
+
+const CHECK_DIGIT_FIELDS: { [field: string]: string } = {
+  documentNumber: 'Document Number',
+  dateOfBirth: 'Date of Birth',
+  expiryDate: 'Expiry Date',
+  personalNumber: 'Personal Number',
+  composite: 'Composite',
+};
+
+function isFieldName(name: string): name is CorrectableField {
+  return (CORRECTABLE_FIELDS as readonly string[]).includes(name);
+}
+
+export class RiskModel {
+  /** Applies a policy's overrides to the default model. */
+  static configure(settings: RiskModelSettings = {}): RiskModelConfig {
+    return {
+      ...DEFAULT_RISK_MODEL,
+      ...settings,
+      weights: { ...DEFAULT_RISK_MODEL.weights, ...settings.weights },
+      fieldWeights: { ...DEFAULT_RISK_MODEL.fieldWeights, ...settings.fieldWeights },
+    };
+  }
+
+  /**
+   * Confidence in the extracted data as a whole: each field's confidence
+   * weighted by how much the decision depends on it, so a clean name cannot
+   * hide an unreadable expiry date.
+   */
+  static confidence(data: ExtractedData, config: RiskModelConfig = DEFAULT_RISK_MODEL): number {
+    let total = 0;
+    let weights = 0;
+    for (const [field, weight] of Object.entries(config.fieldWeights)) {
+      const value = this.field(data, field);
+      if (!value || weight <= 0) continue;
+      total += value.confidence * weight;
+      weights += weight;
+    }
+    return weights === 0 ? 0 : Math.round(total / weights);
+  }
+
+  /**
+   * Turns the checks into a decision. Each reason code adds its weight to
+   * the risk score once, however many checks raised it. The application is
+   * rejected when findings alone reach the reject threshold and sent to
+   * review when the whole score reaches the review threshold.
+   */
+  static assess(
+    data: ExtractedData,
+    validationChecks: ValidationCheck[],
+    eligibilityChecks: EligibilityCheck[],
+    applicant: ApplicantData,
+    policy: EligibilityPolicy
+  ): VerificationDecision {
+    const config = this.configure(policy.riskModel);
+    const found = new Map<DecisionReasonCode, { checks: Set<string>; fields: Set<string> }>();
+    const raise = (code: DecisionReasonCode, detail: { check?: string; field?: string }) => {
+      const entry = found.get(code) || { checks: new Set<string>(), fields: new Set<string>() };
+      if (detail.check) entry.checks.add(detail.check);
+      if (detail.field) entry.fields.add(detail.field);
+      found.set(code, entry);
+    };
+
+    for (const check of validationChecks) {
+      if (check.status === 'failed') {
+        raise(VALIDATION_CODES[check.check] || 'VALIDATION_FAILED', { check: check.check });
+      }
+    }
+
+    for (const check of eligibilityChecks) {
+      if (check.status === 'failed') {
+        raise(this.eligibilityCode(check, data, applicant, policy), { check: check.check });
+      } else if (check.warning) {
+        raise('POLICY_WARNING', { check: check.check });
+      }
+    }
+
+    for (const check of [...validationChecks, ...eligibilityChecks]) {
+      if (check.status === 'unverified') {
+        raise('CHECK_UNVERIFIED', { check: check.check });
+      }
+    }
+
+    for (const field of this.failedCheckDigits(data)) {
+      // A reviewer who corrected the field has read it from the document.
+      if (this.field(data, field)?.source !== 'manual') {
+        raise('CHECK_DIGIT_FAILED', { field });
+      }
+    }
+
+    for (const name of config.criticalFields) {
+      const field = this.field(data, name);
+      if (!field?.found) {
+        raise('CRITICAL_FIELD_MISSING', { field: name });
+      } else if (field.confidence < config.minFieldConfidence) {
+        raise('LOW_FIELD_CONFIDENCE', { field: name });
+      }
+    }
+
+    const confidence = this.confidence(data, config);
+    if (confidence < config.minOverallConfidence) {
+      raise('LOW_CONFIDENCE', {});
+    }
+
+    const reasons: DecisionReason[] = [];
+    for (const [code, { checks, fields }] of Array.from(found.entries())) {
+      const points = config.weights[code];
+      if (points <= 0) continue;
+      reasons.push({
+        code,
+        points,
+        message: this.message(code, checks, fields, confidence),
+        ...(checks.size > 0 ? { checks: Array.from(checks) } : {}),
+        ...(fields.size > 0 ? { fields: Array.from(fields) } : {}),
+      });
+    }
+    reasons.sort((a, b) => b.points - a.points);
+
+    const riskScore = Math.min(100, reasons.reduce((sum, reason) => sum + reason.points, 0));
+    const findingScore = reasons
+      .filter(reason => !UNCERTAINTY_CODES.includes(reason.code))
+      .reduce((sum, reason) => sum + reason.points, 0);
+
+    let outcome: DecisionOutcome = 'approve';
+    if (findingScore >= config.rejectThreshold) {
+      outcome = 'reject';
+    } else if (riskScore >= config.reviewThreshold) {
+      outcome = 'manual_review';
+    }
+
+    return { outcome, riskScore, reasons };
+  }
+
+  private static eligibilityCode(
+    check: EligibilityCheck,
+    data: ExtractedData,
+    applicant: ApplicantData,
+    policy: EligibilityPolicy
+  ): DecisionReasonCode {
+    if (check.check === 'Nationality Eligibility') {
+      const blocked = policy.blockedNationalities.some(code => CountryRegistry.sameCountry(code, data.nationality.value));
+      return blocked ? 'BLOCKED_NATIONALITY' : 'NATIONALITY_NOT_ALLOWED';
+    }
+
+    if (check.check === 'Name Match') {
+      const nameFieldFull = data.surname.source === 'mrz' && VIZComparator.nameFieldFull(data);
+      const { grade } = NameMatcher.match(data.surname.value, data.givenNames.value, applicant.name, nameFieldFull);
+      return grade === 'mismatch' ? 'NAME_MISMATCH' : 'NAME_WEAK_MATCH';
+    }
+
+    return ELIGIBILITY_CODES[check.check] || 'ELIGIBILITY_FAILED';
+  }
+
+  /**
+   * Check digits are recomputed from the stored MRZ lines, after any OCR
+   * corrections, so only digits no correction could satisfy count.
+   */
+  private static failedCheckDigits(data: ExtractedData): string[] {
+    const lines = [data.mrzLine1, data.mrzLine2, data.mrzLine3]
+      .filter((line): line is ExtractedField => !!line?.found)
+      .map(line => line.value);
+    if (lines.length < 2) return [];
+
+    const { checkDigits } = MRZValidator.validateMRZ(lines);
+    return Object.entries(checkDigits)
+      .filter(([, passed]) => !passed)
+      .map(([field]) => field);
+  }
+
+  /** Policies and check digits name fields as strings; other names have no field. */
+  private static field(data: ExtractedData, name: string): ExtractedField | undefined {
+    return isFieldName(name) ? data[name] : undefined;
+  }
+
+  private static message(code: DecisionReasonCode, checks: Set<string>, fields: Set<string>, confidence: number): string {
+    if (code === 'LOW_CONFIDENCE') {
+      return `${MESSAGES[code]} (${confidence}%)`;
+    }
+    if (code === 'CHECK_DIGIT_FAILED') {
+      return `${MESSAGES[code]}: ${Array.from(fields).map(field => CHECK_DIGIT_FIELDS[field] || field).join(', ')}`;
+    }
+    if (SELF_DESCRIBING_CODES.includes(code)) {
+      return MESSAGES[code];
+    }
+    const details = fields.size > 0 ? Array.from(fields).map(field => FIELD_LABELS[field] || field) : Array.from(checks);
+    return details.length > 0 ? `${MESSAGES[code]}: ${details.join(', ')}` : MESSAGES[code];
+  }
+}
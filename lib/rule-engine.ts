@@ -0,0 +1,280 @@
+import {
+  ApplicantData,
+  EligibilityCheck,
+  EligibilityPolicy,
+  EligibilityRule,
+  ExtractedData,
+  ExtractedField,
+  RuleComparison,
+  RuleCondition,
+  RuleField,
+} from './types';
+import { CountryRegistry } from './country-registry';
+import { PartialDates } from './partial-date';
+
+/**
+ * A resolved field: text, or a numeric range for values computed from
+ * partial dates. The range collapses to one number for complete dates.
+ */
+type FieldValue = { text: string } | { range: [min: number, max: number] };
+
+/** Three-valued result: null when the condition depends on missing data. */
+type Truth = boolean | null;
+
+const FIELD_LABELS: { [field in RuleField]: string } = {
+  'document.documentType': 'Document Type',
+  'document.documentNumber': 'Document Number',
+  'document.nationality': 'Nationality',
+  'document.issuingCountry': 'Issuing Country',
+  'document.sex': 'Sex',
+  'document.age': 'Date of Birth',
+  'document.monthsValid': 'Expiry Date',
+  'document.monthsValidAfterStay': 'Expiry Date or Intended Stay',
+  'applicant.nationality': 'Applicant Nationality',
+  'applicant.intendedVisaType': 'Intended Visa Type',
+  'applicant.intendedStayDays': 'Intended Stay',
+};
+
+const COUNTRY_FIELDS: RuleField[] = ['document.nationality', 'document.issuingCountry', 'applicant.nationality'];
+
+const DAYS_PER_MONTH = 30;
+
+interface RuleContext {
+  data: ExtractedData;
+  applicant: ApplicantData;
+  today: Date;
+  missing: Set<string>;
+}
+
+export class RuleEngine {
+  /**
+   * Evaluates the policy's rules, followed by the additional requirements of
+   * the applicant's visa type, into one eligibility check per rule.
+   */
+  static evaluate(
+    data: ExtractedData,
+    applicant: ApplicantData,
+    policy: EligibilityPolicy,
+    today: Date = new Date()
+  ): EligibilityCheck[] {
+    const rules = [...(policy.rules || []), ...this.visaTypeRules(policy, applicant.intendedVisaType)];
+    return rules.map(rule => this.evaluateRule(rule, { data, applicant, today, missing: new Set() }));
+  }
+
+  /** The policy's entry for a visa type; names inherited from Object.prototype are not visa types. */
+  static visaTypeRequirement(
+    policy: EligibilityPolicy,
+    visaType: string
+  ): EligibilityPolicy['visaTypeRequirements'][string] | undefined {
+    return Object.hasOwn(policy.visaTypeRequirements, visaType) ? policy.visaTypeRequirements[visaType] : undefined;
+  }
+
+  /**
+   * A visa type's additionalRequirements are supporting documents the
+   * applicant must supply, expressed as 'requireDocument' rules.
+   */
+  static visaTypeRules(policy: EligibilityPolicy, visaType: string): EligibilityRule[] {
+    const requirements = this.visaTypeRequirement(policy, visaType)?.additionalRequirements || [];
+    return requirements.map((requirement, i) => ({
+      id: `visaType.${visaType}.requirement${i + 1}`,
+      description: `${requirement} (${visaType} visa)`,
+      when: { field: 'applicant.intendedVisaType', operator: 'equals', value: visaType },
+      effect: 'requireDocument',
+      document: requirement,
+    }));
+  }
+
+  private static evaluateRule(rule: EligibilityRule, context: RuleContext): EligibilityCheck {
+    const result = this.test(rule.when, context);
+    const check = { check: rule.description, ruleId: rule.id };
+
+    if (result === null) {
+      return {
+        ...check,
+        passed: false,
+        status: 'unverified',
+        message: `Unable to evaluate: ${Array.from(context.missing).join(', ')} not available`,
+      };
+    }
+
+    if (!result) {
+      return { ...check, passed: true, status: 'passed', message: 'Rule does not apply' };
+    }
+
+    switch (rule.effect) {
+      case 'fail':
+        return { ...check, passed: false, status: 'failed', message: rule.message || `Failed: ${rule.description}` };
+      case 'warn':
+        return {
+          ...check,
+          passed: true,
+          status: 'passed',
+          warning: true,
+          message: `Warning: ${rule.message || rule.description}`,
+        };
+      case 'requireDocument': {
+        const document = rule.document || rule.description;
+        const supplied = (context.applicant.supportingDocuments || []).some(
+          supplied => supplied.trim().toLowerCase() === document.trim().toLowerCase()
+        );
+        return supplied
+          ? { ...check, passed: true, status: 'passed', message: `Supporting document supplied: ${document}` }
+          : {
+              ...check,
+              passed: false,
+              status: 'unverified',
+              message: rule.message || `Supporting document required: ${document}`,
+            };
+      }
+      default:
+        return { ...check, passed: true, status: 'passed', message: rule.message || `Passed: ${rule.description}` };
+    }
+  }
+
+  /**
+   * Kleene logic: `all` is false as soon as one part is false and `any` true
+   * as soon as one part is true, even when other parts are unknown.
+   */
+  private static test(condition: RuleCondition, context: RuleContext): Truth {
+    if ('all' in condition) {
+      const results = condition.all.map(part => this.test(part, context));
+      if (results.includes(false)) return false;
+      return results.includes(null) ? null : true;
+    }
+
+    if ('any' in condition) {
+      const results = condition.any.map(part => this.test(part, context));
+      if (results.includes(true)) return true;
+      return results.includes(null) ? null : false;
+    }
+
+    if ('not' in condition) {
+      const result = this.test(condition.not, context);
+      return result === null ? null : !result;
+    }
+
+    return this.compare(condition, context);
+  }
+
+  private static compare(comparison: RuleComparison, context: RuleContext): Truth {
+    const value = this.resolve(comparison.field, context);
+    if (comparison.operator === 'exists') {
+      return value !== null;
+    }
+    if (value === null) {
+      context.missing.add(FIELD_LABELS[comparison.field]);
+      return null;
+    }
+
+    if ('range' in value) {
+      const [min, max] = value.range;
+      const atMin = this.compareNumber(min, comparison);
+      const atMax = this.compareNumber(max, comparison);
+      if (atMin !== atMax) {
+        context.missing.add(`complete ${FIELD_LABELS[comparison.field]}`);
+        return null;
+      }
+      return atMin;
+    }
+
+    return this.compareText(value.text, comparison);
+  }
+
+  private static compareNumber(actual: number, { operator, value }: RuleComparison): boolean {
+    const values = (Array.isArray(value) ? value : [value]).map(Number);
+    switch (operator) {
+      case 'equals':
+        return actual === values[0];
+      case 'notEquals':
+        return actual !== values[0];
+      case 'in':
+        return values.includes(actual);
+      case 'notIn':
+        return !values.includes(actual);
+      case 'lessThan':
+        return actual < values[0];
+      case 'atMost':
+        return actual <= values[0];
+      case 'greaterThan':
+        return actual > values[0];
+      case 'atLeast':
+        return actual >= values[0];
+      default:
+        return false;
+    }
+  }
+
+  private static compareText(actual: string, { field, operator, value }: RuleComparison): boolean {
+    const values = (Array.isArray(value) ? value : [value]).map(v => String(v ?? ''));
+    const same = COUNTRY_FIELDS.includes(field)
+      ? (expected: string) => CountryRegistry.sameCountry(actual, expected)
+      : (expected: string) => actual.trim().toUpperCase() === expected.trim().toUpperCase();
+
+    switch (operator) {
+      case 'equals':
+        return same(values[0]);
+      case 'notEquals':
+        return !same(values[0]);
+      case 'in':
+        return values.some(same);
+      case 'notIn':
+        return !values.some(same);
+      case 'inGroup':
+        return CountryRegistry.inGroup(actual, values[0]);
+      default: {
+        const number = parseFloat(actual);
+        return !isNaN(number) && this.compareNumber(number, { field, operator, value });
+      }
+    }
+  }
+
+  private static resolve(field: RuleField, { data, applicant, today }: RuleContext): FieldValue | null {
+    const text = (extracted: ExtractedField) => (extracted.found && extracted.value ? { text: extracted.value } : null);
+    const given = (value: string | undefined) => (value ? { text: value } : null);
+
+    switch (field) {
+      case 'document.documentType':
+        return text(data.documentType);
+      case 'document.documentNumber':
+        return text(data.documentNumber);
+      case 'document.nationality':
+        return text(data.nationality);
+      case 'document.issuingCountry':
+        return text(data.issuingCountry);
+      case 'document.sex':
+        return text(data.sex);
+      case 'document.age': {
+        const dob = data.dateOfBirth.found ? PartialDates.parse(data.dateOfBirth.value) : null;
+        return dob ? { range: PartialDates.ageRange(dob, today) } : null;
+      }
+      case 'document.monthsValid':
+        return this.monthsValid(data, today, 0);
+      case 'document.monthsValidAfterStay':
+        return typeof applicant.intendedStayDays === 'number'
+          ? this.monthsValid(data, today, applicant.intendedStayDays)
+          : null;
+      case 'applicant.nationality':
+        return given(applicant.nationality);
+      case 'applicant.intendedVisaType':
+        return given(applicant.intendedVisaType);
+      case 'applicant.intendedStayDays': {
+        const days = applicant.intendedStayDays;
+        return typeof days === 'number' ? { range: [days, days] } : null;
+      }
+      default: {
+        const unknown: never = field;
+        throw new Error(`Unknown rule field "${unknown}"`);
+      }
+    }
+  }
+
+  /** Whole months of validity left after the given number of days. */
+  private static monthsValid(data: ExtractedData, today: Date, afterDays: number): FieldValue | null {
+    const expiry = data.expiryDate.found ? PartialDates.parse(data.expiryDate.value) : null;
+    if (!expiry) return null;
+
+    const months = (bound: 'earliest' | 'latest') =>
+      Math.floor((PartialDates.daysUntil(expiry, today, bound) - afterDays) / DAYS_PER_MONTH);
+    return { range: [months('earliest'), months('latest')] };
+  }
+}
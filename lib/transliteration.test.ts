@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { NameMatcher } from './name-matcher';
+import { Transliteration } from './transliteration';
+
+describe('Transliteration', () => {
+  it('follows the ICAO Cyrillic table', () => {
+    assert.equal(Transliteration.toMRZ('Иванов'), 'IVANOV');
+    assert.equal(Transliteration.toMRZ('Щербаков Юрий'), 'SHCHERBAKOV IURII');
+    assert.equal(Transliteration.toMRZ('Ёлкин'), 'ELKIN');
+  });
+
+  it('follows the ICAO Greek table', () => {
+    assert.equal(Transliteration.toMRZ('Παπαδόπουλος'), 'PAPADOPOULOS');
+    assert.equal(Transliteration.toMRZ('Θεοδωρής'), 'THEODORIS');
+  });
+
+  it('accepts both Latin spellings of expandable letters', () => {
+    assert.deepEqual(Transliteration.mrzVariants('Müller'), ['MUELLER', 'MULLER']);
+  });
+});
+
+describe('NameMatcher', () => {
+  it('matches a Cyrillic name against its MRZ spelling', () => {
+    const { grade } = NameMatcher.match('IVANOV', 'IVAN', 'Иван Иванов');
+    assert.ok(NameMatcher.meetsGrade(grade, 'strong'), `graded ${grade}`);
+  });
+});
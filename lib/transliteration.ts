@@ -0,0 +1,144 @@
+/**
+ * Accented letters that ICAO 9303 Part 3 recommends expanding to two letters.
+ * Issuing states may instead drop the diacritic, so both forms are accepted.
+ */
+const EXPANDABLE: { [char: string]: string } = {
+  Ä: 'AE',
+  Å: 'AA',
+  Ö: 'OE',
+  Ü: 'UE',
+};
+
+/**
+ * Letters with no decomposed form; these always transliterate the same way.
+ */
+const FIXED: { [char: string]: string } = {
+  Æ: 'AE',
+  Ĳ: 'IJ',
+  Ø: 'OE',
+  Œ: 'OE',
+  ß: 'SS',
+  ẞ: 'SS',
+  Þ: 'TH',
+  Ð: 'D',
+  Đ: 'D',
+  Ħ: 'H',
+  İ: 'I',
+  Ł: 'L',
+  Ŋ: 'N',
+  Ŧ: 'T',
+};
+
+/**
+ * Cyrillic and Greek letters, per ICAO 9303 Part 3 (Й → I, Ж → ZH, Θ → TH).
+ * Looked up after diacritics are removed, so accented forms such as Ё, Ї,
+ * Ў and Ά share their base letter's entry. The soft sign is omitted, and
+ * Greek ΟΥ is written OU (ΠΑΠΑΔΟΠΟΥΛΟΣ → PAPADOPOULOS).
+ */
+const NON_LATIN: { [char: string]: string } = {
+  // Cyrillic
+  А: 'A',
+  Б: 'B',
+  В: 'V',
+  Г: 'G',
+  Ґ: 'G',
+  Д: 'D',
+  Ђ: 'D',
+  Е: 'E',
+  Є: 'IE',
+  Ж: 'ZH',
+  З: 'Z',
+  Ѕ: 'DZ',
+  И: 'I',
+  І: 'I',
+  Ј: 'J',
+  К: 'K',
+  Л: 'L',
+  Љ: 'LJ',
+  М: 'M',
+  Н: 'N',
+  Њ: 'NJ',
+  О: 'O',
+  П: 'P',
+  Р: 'R',
+  С: 'S',
+  Т: 'T',
+  Ћ: 'C',
+  У: 'U',
+  Ф: 'F',
+  Х: 'KH',
+  Ц: 'TS',
+  Ч: 'CH',
+  Џ: 'DZ',
+  Ш: 'SH',
+  Щ: 'SHCH',
+  Ъ: 'IE',
+  Ы: 'Y',
+  Ь: '',
+  Э: 'E',
+  Ю: 'IU',
+  Я: 'IA',
+  // Greek
+  Α: 'A',
+  Β: 'V',
+  Γ: 'G',
+  Δ: 'D',
+  Ε: 'E',
+  Ζ: 'Z',
+  Η: 'I',
+  Θ: 'TH',
+  Ι: 'I',
+  Κ: 'K',
+  Λ: 'L',
+  Μ: 'M',
+  Ν: 'N',
+  Ξ: 'X',
+  Ο: 'O',
+  Π: 'P',
+  Ρ: 'R',
+  Σ: 'S',
+  Τ: 'T',
+  Υ: 'Y',
+  Φ: 'F',
+  Χ: 'CH',
+  Ψ: 'PS',
+  Ω: 'O',
+};
+
+function transliterate(name: string, expand: boolean): string {
+  const mapped = Array.from(name.toLocaleUpperCase('en-US'))
+    .map(char => FIXED[char] || (expand && EXPANDABLE[char]) || char)
+    .join('');
+
+  return Array.from(
+    mapped
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/ΟΥ/g, 'OU')
+  )
+    .map(char => (Object.hasOwn(NON_LATIN, char) ? NON_LATIN[char] : char))
+    .join('')
+    .replace(/['’`]/g, '')
+    .replace(/[^A-Z]+/g, ' ')
+    .trim();
+}
+
+export class Transliteration {
+  /**
+   * Converts a printed name to the form it takes in the MRZ, following the
+   * ICAO recommended transliteration (MÜLLER → MUELLER, Иванов → IVANOV).
+   * Apostrophes are dropped and hyphens and other separators become spaces.
+   */
+  static toMRZ(name: string): string {
+    return transliterate(name, true);
+  }
+
+  /**
+   * All MRZ spellings an issuing state may legitimately use for a printed
+   * name: the ICAO two-letter form and the plain diacritic-stripped form
+   * (MÜLLER → MUELLER or MULLER).
+   */
+  static mrzVariants(name: string): string[] {
+    return Array.from(new Set([transliterate(name, true), transliterate(name, false)]));
+  }
+}
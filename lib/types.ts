@@ -4,13 +4,62 @@ export interface ApplicantData {
   passportNumber: string;
   nationality: string;
   intendedVisaType: string;
+  /** Length of the intended stay, for rules on validity beyond the stay. */
+  intendedStayDays?: number;
+  /** Supporting documents the applicant has supplied, e.g. "Guardian consent". */
+  supportingDocuments?: string[];
+}
+
+export type FieldSource = 'mrz' | 'viz' | 'barcode' | 'manual';
+
+export interface BoundingBox {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+/**
+ * Which image of a multi-image submission a field was read from. ID cards
+ * and residence permits carry the TD1 MRZ on the back, and driving licences
+ * their barcode.
+ */
+export type DocumentSide = 'front' | 'back' | 'dataPage' | 'visaPage';
+
+export interface DocumentImage {
+  side: DocumentSide;
+  /** A base64 data URL, or the raw file from a multipart upload. */
+  imageData: string | Buffer;
+}
+
+export interface FieldLocation {
+  page: number;
+  side?: DocumentSide;
+  bbox?: BoundingBox;
 }
 
 export interface ExtractedField {
   value: string;
   confidence: number;
+  found: boolean;
+  source?: FieldSource;
+  location?: FieldLocation;
+  /** The OCR reading a reviewer's correction replaced, kept for audit. */
+  original?: OriginalReading;
 }
 
+export interface OriginalReading {
+  value: string;
+  confidence: number;
+  found: boolean;
+  source?: FieldSource;
+  /** When the field was first corrected. */
+  correctedAt: string;
+}
+
+/** Reviewer corrections keyed by field name, e.g. `{ "expiryDate": "2031-04-15" }`. */
+export type FieldCorrections = { [field: string]: string };
+
 export interface ExtractedData {
   documentType: ExtractedField;
   documentNumber: ExtractedField;
@@ -26,18 +75,63 @@ export interface ExtractedData {
   mrzLine1?: ExtractedField;
   mrzLine2?: ExtractedField;
   mrzLine3?: ExtractedField;
+  mrzCorrections?: MRZCorrection[];
+  visualZone?: VisualZoneData;
+  /** Number of images or PDF pages the data was merged from. */
+  pageCount?: number;
+  sides?: DocumentSide[];
+  sideConflicts?: SideConflict[];
+}
+
+/**
+ * A field read from more than one image or PDF page whose readings disagree,
+ * such as a date of birth printed on the front that differs from the one in
+ * the MRZ on the back.
+ */
+export interface SideConflict {
+  field: string;
+  readings: { page: number; side?: DocumentSide; value: string; source?: FieldSource }[];
+}
+
+/**
+ * Fields read from the printed visual inspection zone independently of the
+ * MRZ, kept so the two readings can be compared for signs of tampering.
+ */
+export interface VisualZoneData {
+  documentNumber?: ExtractedField;
+  surname?: ExtractedField;
+  givenNames?: ExtractedField;
+  dateOfBirth?: ExtractedField;
+  expiryDate?: ExtractedField;
+  sex?: ExtractedField;
+}
+
+export interface MRZCorrection {
+  field: string;
+  line: number;
+  position: number;
+  from: string;
+  to: string;
 }
 
+export type CheckStatus = 'passed' | 'failed' | 'unverified';
+
 export interface ValidationCheck {
   check: string;
   passed: boolean;
+  status: CheckStatus;
   message: string;
 }
 
 export interface EligibilityCheck {
   check: string;
   passed: boolean;
+  status: CheckStatus;
   message: string;
+  /** The policy rule that produced the check. */
+  ruleId?: string;
+  /** Set on passed checks produced by a rule with the 'warn' effect. */
+  warning?: boolean;
 }
 
 export interface VerificationResult {
@@ -47,8 +141,89 @@ export interface VerificationResult {
   eligibilityChecks: EligibilityCheck[];
   recommendedActions: string[];
   summary: string;
+  decision: VerificationDecision;
+  /** The stored policy version the eligibility checks were evaluated against. */
+  policy: PolicyReference;
+  /**
+   * Signed copy of `extractedData` and digests of the files it was read
+   * from, to send back to /api/validate and /api/reports.
+   */
+  resultToken?: string;
 }
 
+export interface PolicyReference {
+  id: string;
+  version: number;
+  name: string;
+  /** SHA-256 of the policy JSON, so an audit can prove which rules applied. */
+  hash: string;
+  effectiveFrom: string;
+  effectiveUntil?: string;
+}
+
+export type DecisionOutcome = 'approve' | 'manual_review' | 'reject';
+
+export type DecisionReasonCode =
+  | 'BLOCKED_NATIONALITY'
+  | 'NATIONALITY_NOT_ALLOWED'
+  | 'DOCUMENT_EXPIRED'
+  | 'CHECK_DIGIT_FAILED'
+  | 'NAME_MISMATCH'
+  | 'NAME_WEAK_MATCH'
+  | 'APPLICANT_DATA_MISMATCH'
+  | 'VISUAL_ZONE_MISMATCH'
+  | 'CROSS_IMAGE_CONFLICT'
+  | 'VALIDATION_FAILED'
+  | 'ELIGIBILITY_FAILED'
+  | 'POLICY_WARNING'
+  | 'CRITICAL_FIELD_MISSING'
+  | 'LOW_FIELD_CONFIDENCE'
+  | 'LOW_CONFIDENCE'
+  | 'CHECK_UNVERIFIED';
+
+export interface DecisionReason {
+  code: DecisionReasonCode;
+  /** Risk points the reason added to the score. */
+  points: number;
+  message: string;
+  /** The checks behind the reason. */
+  checks?: string[];
+  /** The extracted fields behind the reason. */
+  fields?: string[];
+}
+
+/**
+ * Machine-readable outcome of a verification, produced by the risk model.
+ * The summary and recommended actions are written from it.
+ */
+export interface VerificationDecision {
+  outcome: DecisionOutcome;
+  /** 0 (no risk found) to 100. */
+  riskScore: number;
+  reasons: DecisionReason[];
+}
+
+/**
+ * Per-policy overrides of the risk model. Anything left out keeps its
+ * default.
+ */
+export interface RiskModelSettings {
+  /** Points each reason code adds to the risk score; 0 ignores the reason. */
+  weights?: { [code in DecisionReasonCode]?: number };
+  /** Relative weight of each extracted field in the overall confidence. */
+  fieldWeights?: { [field: string]: number };
+  /** Fields that must be found and read with at least minFieldConfidence. */
+  criticalFields?: string[];
+  minFieldConfidence?: number;
+  minOverallConfidence?: number;
+  /** Risk score from which an application goes to manual review. */
+  reviewThreshold?: number;
+  /** Score from findings, not missing data, from which it is rejected. */
+  rejectThreshold?: number;
+}
+
+export type NameMatchGrade = 'exact' | 'strong' | 'weak' | 'mismatch';
+
 export interface EligibilityPolicy {
   minAge: number;
   maxAge: number;
@@ -56,6 +231,11 @@ export interface EligibilityPolicy {
   blockedNationalities: string[];
   requiredDocumentTypes: string[];
   minValidityMonths: number;
+  /** Weakest applicant name match that passes; defaults to 'strong'. */
+  minNameMatchGrade?: NameMatchGrade;
+  /** Declarative rules, each evaluated into its own eligibility check. */
+  rules?: EligibilityRule[];
+  riskModel?: RiskModelSettings;
   visaTypeRequirements: {
     [key: string]: {
       minAge?: number;
@@ -64,3 +244,63 @@ export interface EligibilityPolicy {
     };
   };
 }
+
+/**
+ * Values an eligibility rule can test. Ages and months of validity are
+ * computed on the day of evaluation; `document.monthsValidAfterStay` needs
+ * the applicant's intended stay.
+ */
+export type RuleField =
+  | 'document.documentType'
+  | 'document.documentNumber'
+  | 'document.nationality'
+  | 'document.issuingCountry'
+  | 'document.sex'
+  | 'document.age'
+  | 'document.monthsValid'
+  | 'document.monthsValidAfterStay'
+  | 'applicant.nationality'
+  | 'applicant.intendedVisaType'
+  | 'applicant.intendedStayDays';
+
+export type RuleOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'in'
+  | 'notIn'
+  | 'inGroup'
+  | 'lessThan'
+  | 'atMost'
+  | 'greaterThan'
+  | 'atLeast'
+  | 'exists';
+
+export interface RuleComparison {
+  field: RuleField;
+  operator: RuleOperator;
+  /** A list for 'in' and 'notIn', a group name such as 'EU' for 'inGroup'. */
+  value?: string | number | string[];
+}
+
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | RuleComparison;
+
+export type RuleEffect = 'pass' | 'fail' | 'warn' | 'requireDocument';
+
+/**
+ * A policy rule: when its condition holds the effect applies. Conditions
+ * that depend on data missing from the document or application leave the
+ * rule unverified.
+ */
+export interface EligibilityRule {
+  id: string;
+  description: string;
+  when: RuleCondition;
+  effect: RuleEffect;
+  /** The supporting document required by a 'requireDocument' rule. */
+  document?: string;
+  message?: string;
+}
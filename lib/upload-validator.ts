@@ -0,0 +1,121 @@
+import sharp from 'sharp';
+import { PDFReader } from './pdf-reader';
+
+export type UploadType = 'jpeg' | 'png' | 'webp' | 'tiff' | 'gif' | 'pdf';
+
+interface Signature {
+  type: UploadType;
+  offset: number;
+  bytes: string;
+}
+
+/**
+ * Magic bytes of the formats Tesseract and sharp can read. WebP is a RIFF
+ * container, so its 'WEBP' tag is checked at offset 8.
+ */
+const SIGNATURES: Signature[] = [
+  { type: 'jpeg', offset: 0, bytes: 'ffd8ff' },
+  { type: 'png', offset: 0, bytes: '89504e470d0a1a0a' },
+  { type: 'webp', offset: 8, bytes: '57454250' },
+  { type: 'tiff', offset: 0, bytes: '49492a00' },
+  { type: 'tiff', offset: 0, bytes: '4d4d002a' },
+  { type: 'gif', offset: 0, bytes: '474946383761' },
+  { type: 'gif', offset: 0, bytes: '474946383961' },
+  { type: 'pdf', offset: 0, bytes: '255044462d' },
+];
+
+export class UploadTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadTooLargeError';
+  }
+}
+
+export class UnsupportedMediaTypeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedMediaTypeError';
+  }
+}
+
+export interface UploadConfig {
+  maxFileBytes: number;
+  maxDimension: number;
+  maxRequestBytes: number;
+}
+
+export function loadUploadConfig(): UploadConfig {
+  const maxFileBytes = Math.max(1, parseInt(process.env.UPLOAD_MAX_FILE_BYTES || String(15 * 1024 * 1024)));
+  return {
+    maxFileBytes,
+    maxDimension: Math.max(1, parseInt(process.env.UPLOAD_MAX_DIMENSION || '10000')),
+    // Four labelled images, base64-encoded in a JSON body, plus the form fields.
+    maxRequestBytes: Math.ceil(maxFileBytes * 4 * (4 / 3)) + 1024 * 1024,
+  };
+}
+
+export class UploadValidator {
+  static detectType(input: Buffer): UploadType | null {
+    const match = SIGNATURES.find(
+      signature =>
+        input.subarray(signature.offset, signature.offset + signature.bytes.length / 2).toString('hex') ===
+        signature.bytes
+    );
+    if (!match) return null;
+    if (match.type === 'webp' && input.subarray(0, 4).toString('latin1') !== 'RIFF') return null;
+    return match.type;
+  }
+
+  /**
+   * Rejects a request whose declared body is larger than any valid
+   * submission could be, before the body is read.
+   */
+  static checkContentLength(contentLength: string | null, config: UploadConfig = loadUploadConfig()): void {
+    const length = contentLength ? parseInt(contentLength) : NaN;
+    if (length > config.maxRequestBytes) {
+      throw new UploadTooLargeError(`Request body of ${length} bytes exceeds the ${config.maxRequestBytes} byte limit`);
+    }
+  }
+
+  /**
+   * Checks one uploaded file against the size limit, its magic bytes and its
+   * pixel dimensions. A PDF's pages must be small enough to rasterise within
+   * the same pixel limit; a PDF that cannot be opened throws PDFError.
+   */
+  static async validate(input: Buffer, label: string, config: UploadConfig = loadUploadConfig()): Promise<UploadType> {
+    if (input.length > config.maxFileBytes) {
+      throw new UploadTooLargeError(`${label} is ${input.length} bytes; the limit is ${config.maxFileBytes}`);
+    }
+
+    const type = this.detectType(input);
+    if (!type) {
+      throw new UnsupportedMediaTypeError(`${label} is not a JPEG, PNG, WebP, TIFF, GIF or PDF file`);
+    }
+    if (type === 'pdf') {
+      const oversized = await PDFReader.findOversizedPage(input, config.maxDimension);
+      if (oversized) {
+        throw new UploadTooLargeError(
+          `${label} page ${oversized.pageNumber} is ${oversized.width}x${oversized.height} points; too large to render within ${config.maxDimension} pixels`
+        );
+      }
+      return type;
+    }
+
+    let metadata;
+    try {
+      metadata = await sharp(input).metadata();
+    } catch {
+      throw new UnsupportedMediaTypeError(`${label} could not be decoded as ${type.toUpperCase()}`);
+    }
+
+    const width = metadata.width || 0;
+    const height = metadata.height || 0;
+    if (width > config.maxDimension || height > config.maxDimension) {
+      throw new UploadTooLargeError(
+        `${label} is ${width}x${height} pixels; neither side may exceed ${config.maxDimension}`
+      );
+    }
+
+    return type;
+  }
+}
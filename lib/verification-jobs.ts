@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import { VerificationResult } from './types';
+import { OCRPoolBusyError } from './ocr-worker-pool';
+import { PDFError } from './pdf-reader';
+import { WebhookConfig, WebhookSender } from './webhook-sender';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface CallbackDelivery {
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+/** A job as reported by `GET /api/verify/{id}`. */
+export interface VerificationJob {
+  id: string;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  result?: VerificationResult;
+  error?: { error: string; details: string };
+  callback?: CallbackDelivery;
+}
+
+/** Body POSTed to a job's callback URL once it has finished. */
+export interface JobCallbackPayload {
+  jobId: string;
+  status: 'completed' | 'failed';
+  result?: VerificationResult;
+  error?: { error: string; details: string };
+}
+
+export class JobQueueFullError extends Error {
+  constructor(maxQueued: number) {
+    super(`Verification job queue is full (${maxQueued} jobs waiting)`);
+    this.name = 'JobQueueFullError';
+  }
+}
+
+export interface JobConfig {
+  concurrency: number;
+  maxQueued: number;
+  /** How long finished jobs stay readable. */
+  retentionMs: number;
+  /** Wait before retrying a job the OCR pool had no room for. */
+  busyRetryMs: number;
+  /** Retries a job gets while the OCR pool stays full before it fails. */
+  maxBusyRetries: number;
+  /** Callback settings; callbacks are refused without a secret. */
+  webhook: WebhookConfig;
+}
+
+export function loadJobConfig(): JobConfig {
+  return {
+    concurrency: Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '1')),
+    maxQueued: Math.max(1, parseInt(process.env.JOB_MAX_QUEUED || '100')),
+    retentionMs: Math.max(0, parseInt(process.env.JOB_RETENTION_MS || String(60 * 60 * 1000))),
+    busyRetryMs: 5000,
+    maxBusyRetries: Math.max(0, parseInt(process.env.JOB_MAX_BUSY_RETRIES || '60')),
+    webhook: {
+      secret: process.env.WEBHOOK_SECRET || '',
+      maxAttempts: Math.max(1, parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5')),
+      retryBaseMs: Math.max(0, parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '1000')),
+      timeoutMs: Math.max(1, parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000')),
+      allowedHosts: (process.env.WEBHOOK_ALLOWED_HOSTS || '')
+        .split(',')
+        .map(host => host.trim().toLowerCase())
+        .filter(Boolean),
+    },
+  };
+}
+
+interface JobRecord extends VerificationJob {
+  /** Dropped once the job has run, releasing the uploaded files. */
+  task?: () => Promise<VerificationResult>;
+  busyRetries: number;
+}
+
+/**
+ * In-process queue for asynchronous verifications. Jobs live in memory, so
+ * they are lost when the server restarts; the queue suits a long-running
+ * Node server rather than serverless functions.
+ */
+export class VerificationJobQueue {
+  private static instance: VerificationJobQueue | null = null;
+
+  private readonly jobs = new Map<string, JobRecord>();
+  private readonly queue: JobRecord[] = [];
+  private running = 0;
+
+  constructor(private readonly config: JobConfig = loadJobConfig()) {}
+
+  static getInstance(): VerificationJobQueue {
+    if (!this.instance) {
+      this.instance = new VerificationJobQueue();
+    }
+    return this.instance;
+  }
+
+  get callbacksEnabled(): boolean {
+    return this.config.webhook.secret !== '';
+  }
+
+  /** Throws CallbackUrlError for a callback URL the server will not deliver to. */
+  checkCallbackUrl(url: string): Promise<void> {
+    return WebhookSender.checkUrl(url, this.config.webhook);
+  }
+
+  submit(task: () => Promise<VerificationResult>, callbackUrl?: string): VerificationJob {
+    this.prune();
+    if (this.queue.length >= this.config.maxQueued) {
+      throw new JobQueueFullError(this.config.maxQueued);
+    }
+
+    const job: JobRecord = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      task,
+      busyRetries: 0,
+      ...(callbackUrl ? { callback: { url: callbackUrl, status: 'pending', attempts: 0 } } : {}),
+    };
+    this.jobs.set(job.id, job);
+    this.queue.push(job);
+    this.pump();
+    return this.view(job);
+  }
+
+  get(id: string): VerificationJob | null {
+    this.prune();
+    const job = this.jobs.get(id);
+    return job ? this.view(job) : null;
+  }
+
+  private pump(): void {
+    while (this.running < this.config.concurrency && this.queue.length > 0) {
+      const job = this.queue.shift()!;
+      this.running++;
+      this.run(job).finally(() => {
+        this.running--;
+        this.pump();
+      });
+    }
+  }
+
+  private async run(job: JobRecord): Promise<void> {
+    job.status = 'running';
+    job.startedAt = job.startedAt || new Date().toISOString();
+
+    try {
+      job.result = await job.task!();
+      job.status = 'completed';
+    } catch (error: any) {
+      // Synchronous requests filled the OCR queue; wait and try again, for a while.
+      if (error instanceof OCRPoolBusyError && job.busyRetries < this.config.maxBusyRetries) {
+        job.busyRetries++;
+        job.status = 'queued';
+        setTimeout(() => {
+          this.queue.unshift(job);
+          this.pump();
+        }, this.config.busyRetryMs);
+        return;
+      }
+
+      if (!(error instanceof PDFError) && !(error instanceof OCRPoolBusyError)) {
+        console.error(`Verification job ${job.id} failed:`, error);
+      }
+      job.status = 'failed';
+      job.error = {
+        error:
+          error instanceof PDFError
+            ? 'Unreadable PDF'
+            : error instanceof OCRPoolBusyError
+              ? 'OCR service busy'
+              : 'Verification failed',
+        details: error.message,
+      };
+    }
+
+    job.completedAt = new Date().toISOString();
+    job.task = undefined;
+    if (job.callback) {
+      this.sendCallback(job, job.callback);
+    }
+  }
+
+  private async sendCallback(job: JobRecord, callback: CallbackDelivery): Promise<void> {
+    const payload: JobCallbackPayload = {
+      jobId: job.id,
+      status: job.status === 'completed' ? 'completed' : 'failed',
+      ...(job.result ? { result: job.result } : {}),
+      ...(job.error ? { error: job.error } : {}),
+    };
+
+    const outcome = await WebhookSender.deliver(callback.url, job.id, payload, this.config.webhook, attempt => {
+      callback.attempts = attempt.attempt;
+      callback.lastAttemptAt = new Date().toISOString();
+      if (attempt.error || (attempt.status && attempt.status >= 300)) {
+        callback.lastError = attempt.error || `Receiver responded ${attempt.status}`;
+      }
+    });
+
+    callback.status = outcome.delivered ? 'delivered' : 'failed';
+    if (!outcome.delivered) {
+      console.error(`Callback for job ${job.id} to ${callback.url} failed after ${outcome.attempts} attempts: ${outcome.error}`);
+    }
+  }
+
+  /** Forgets finished jobs older than the retention period. */
+  private prune(): void {
+    const cutoff = Date.now() - this.config.retentionMs;
+    for (const [id, job] of Array.from(this.jobs.entries())) {
+      if (job.completedAt && Date.parse(job.completedAt) < cutoff && job.callback?.status !== 'pending') {
+        this.jobs.delete(id);
+      }
+    }
+  }
+
+  private view(job: JobRecord): VerificationJob {
+    const { task, busyRetries, ...view } = job;
+    return { ...view, ...(job.callback ? { callback: { ...job.callback } } : {}) };
+  }
+}
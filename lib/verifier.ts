@@ -0,0 +1,125 @@
+import {
+  ApplicantData,
+  DecisionReasonCode,
+  ExtractedData,
+  VerificationDecision,
+  VerificationResult,
+} from './types';
+import { DocumentValidator } from './document-validator';
+import { RiskModel } from './risk-model';
+import { PolicyStore, PolicyVersion } from './policy-store';
+
+const VALIDATION_FINDINGS: DecisionReasonCode[] = [
+  'DOCUMENT_EXPIRED',
+  'VISUAL_ZONE_MISMATCH',
+  'CROSS_IMAGE_CONFLICT',
+  'VALIDATION_FAILED',
+];
+
+const ELIGIBILITY_FINDINGS: DecisionReasonCode[] = [
+  'BLOCKED_NATIONALITY',
+  'NATIONALITY_NOT_ALLOWED',
+  'NAME_MISMATCH',
+  'NAME_WEAK_MATCH',
+  'APPLICANT_DATA_MISMATCH',
+  'ELIGIBILITY_FAILED',
+];
+
+export class Verifier {
+  /**
+   * Runs the validation and eligibility checks on extracted data and turns
+   * them into a decision, summary and recommended actions. Shared by OCR
+   * verification and re-validation of reviewer corrections.
+   */
+  static evaluate(extractedData: ExtractedData, applicant: ApplicantData, policyRecord: PolicyVersion): VerificationResult {
+    const policy = policyRecord.policy;
+    const validationChecks = DocumentValidator.validateDocument(extractedData);
+    const eligibilityChecks = DocumentValidator.checkEligibility(extractedData, applicant, policy);
+
+    const overallConfidence = RiskModel.confidence(extractedData, RiskModel.configure(policy.riskModel));
+    const decision = RiskModel.assess(extractedData, validationChecks, eligibilityChecks, applicant, policy);
+
+    return {
+      overallConfidence,
+      extractedData,
+      validationChecks,
+      eligibilityChecks,
+      recommendedActions: this.recommendedActions(decision),
+      summary: this.summary(extractedData, decision, overallConfidence),
+      decision,
+      policy: PolicyStore.reference(policyRecord),
+    };
+  }
+
+  private static recommendedActions(decision: VerificationDecision): string[] {
+    const actions: string[] = [];
+    const checksFor = (codes: DecisionReasonCode[]) =>
+      decision.reasons.filter(reason => codes.includes(reason.code)).flatMap(reason => reason.checks || []);
+    const has = (...codes: DecisionReasonCode[]) => decision.reasons.some(reason => codes.includes(reason.code));
+
+    const failedValidations = checksFor(VALIDATION_FINDINGS);
+    const failedEligibility = checksFor(ELIGIBILITY_FINDINGS);
+    const unverified = checksFor(['CHECK_UNVERIFIED']);
+    const warnings = checksFor(['POLICY_WARNING']);
+
+    if (failedValidations.length > 0) {
+      actions.push(`Review failed validation checks: ${failedValidations.join(', ')}`);
+    }
+
+    if (has('CHECK_DIGIT_FAILED')) {
+      actions.push('Compare the MRZ with the data page; failed check digits indicate a misread or altered MRZ');
+    }
+
+    if (failedEligibility.length > 0) {
+      actions.push(`Address eligibility issues: ${failedEligibility.join(', ')}`);
+    }
+
+    if (unverified.length > 0) {
+      actions.push(`Manually verify checks that could not be completed: ${unverified.join(', ')}`);
+    }
+
+    if (warnings.length > 0) {
+      actions.push(`Review policy warnings: ${warnings.join(', ')}`);
+    }
+
+    if (has('LOW_CONFIDENCE', 'LOW_FIELD_CONFIDENCE', 'CRITICAL_FIELD_MISSING')) {
+      actions.push('Request clearer document images or manual verification of the extracted data');
+    }
+
+    if (decision.outcome === 'approve') {
+      actions.push(
+        decision.reasons.length === 0
+          ? 'Proceed with visa application - all checks passed'
+          : 'Proceed with visa application after noting the points above'
+      );
+    } else if (decision.outcome === 'manual_review') {
+      actions.push('Refer the application for manual review before proceeding');
+    } else {
+      actions.push('Decline the application unless manual review overturns the findings');
+    }
+
+    return actions;
+  }
+
+  private static summary(extractedData: ExtractedData, decision: VerificationDecision, overallConfidence: number): string {
+    const docType = extractedData.documentType.value;
+    const docNum = extractedData.documentNumber.value;
+    const holderName = `${extractedData.givenNames.value} ${extractedData.surname.value}`.trim();
+    const document = `${docType} document ${docNum} for ${holderName}`;
+    const reasons = decision.reasons.map(reason => reason.message).join('; ');
+
+    if (decision.outcome === 'reject') {
+      return `Application rejected (risk score ${decision.riskScore}). ${document} failed verification: ${reasons}.`;
+    }
+
+    if (decision.outcome === 'manual_review') {
+      return `Manual review required (risk score ${decision.riskScore}). ${document} was read with ${overallConfidence}% confidence: ${reasons}.`;
+    }
+
+    if (decision.reasons.length > 0) {
+      return `Document verification successful with notes (risk score ${decision.riskScore}). ${document} passed with ${overallConfidence}% confidence: ${reasons}. Application can proceed.`;
+    }
+
+    return `Document verification successful. ${document} passed all validation and eligibility checks with ${overallConfidence}% confidence. Application is ready to proceed.`;
+  }
+}
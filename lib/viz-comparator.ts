@@ -0,0 +1,55 @@
+import { MRZValidator } from './mrz-validator';
+import { Transliteration } from './transliteration';
+import { ExtractedData, ExtractedField, VisualZoneData } from './types';
+
+export type ComparableField = keyof VisualZoneData;
+
+export const COMPARABLE_FIELDS: ComparableField[] = [
+  'documentNumber',
+  'surname',
+  'givenNames',
+  'dateOfBirth',
+  'expiryDate',
+  'sex',
+];
+
+export class VIZComparator {
+  /**
+   * Compares a printed visual inspection zone value with the MRZ reading of
+   * the same field. Names are transliterated to the MRZ alphabet first, and
+   * may be cut short in the MRZ when `nameFieldFull` says its name field is
+   * filled to the end; all other fields must match exactly.
+   */
+  static agrees(field: ComparableField, mrzValue: string, vizValue: string, nameFieldFull = false): boolean {
+    switch (field) {
+      case 'surname':
+      case 'givenNames':
+        return this.namesAgree(mrzValue, vizValue, nameFieldFull);
+      case 'documentNumber':
+        return this.alphanumeric(mrzValue) === this.alphanumeric(vizValue);
+      case 'sex':
+        return mrzValue.toUpperCase() === vizValue.trim().toUpperCase().charAt(0);
+      default:
+        return mrzValue === vizValue;
+    }
+  }
+
+  /** Whether the MRZ lines stored in `data` have a full name field. */
+  static nameFieldFull(data: ExtractedData): boolean {
+    const lines = [data.mrzLine1, data.mrzLine2, data.mrzLine3]
+      .filter((line): line is ExtractedField => !!line?.found)
+      .map(line => line.value);
+    return MRZValidator.nameFieldFull(lines);
+  }
+
+  private static namesAgree(mrzValue: string, vizValue: string, nameFieldFull: boolean): boolean {
+    const mrz = mrzValue.toUpperCase().replace(/[^A-Z]+/g, ' ').trim();
+    return Transliteration.mrzVariants(vizValue).some(
+      variant => variant === mrz || (nameFieldFull && mrz.length > 0 && variant.startsWith(mrz))
+    );
+  }
+
+  private static alphanumeric(value: string): string {
+    return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  }
+}
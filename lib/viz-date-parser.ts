@@ -0,0 +1,220 @@
+import { DateKind, PartialDate, PartialDates } from './partial-date';
+import { CountryRegistry } from './country-registry';
+
+export interface VIZDate {
+  date: PartialDate;
+  source: string;
+}
+
+type NumericOrder = 'DMY' | 'MDY' | 'YMD';
+
+/**
+ * Month names and abbreviations in the major issuing languages (English,
+ * French, German, Spanish, Italian, Portuguese and Dutch), uppercased with
+ * diacritics removed.
+ */
+const MONTHS: { [name: string]: number } = Object.fromEntries(
+  [
+    ['JAN', 'JANUARY', 'JANV', 'JANVIER', 'JANUAR', 'JANNER', 'ENE', 'ENERO', 'GEN', 'GENNAIO', 'JANEIRO', 'JANUARI'],
+    ['FEB', 'FEBRUARY', 'FEV', 'FEVR', 'FEVRIER', 'FEBRUAR', 'FEBRERO', 'FEBBRAIO', 'FEVEREIRO', 'FEBRUARI'],
+    ['MAR', 'MARCH', 'MARS', 'MARZ', 'MRZ', 'MARZO', 'MARCO', 'MAART'],
+    ['APR', 'APRIL', 'AVR', 'AVRIL', 'ABR', 'ABRIL', 'APRILE'],
+    ['MAY', 'MAI', 'MAYO', 'MAG', 'MAGGIO', 'MAIO', 'MEI'],
+    ['JUN', 'JUNE', 'JUIN', 'JUNI', 'JUNIO', 'GIU', 'GIUGNO', 'JUNHO'],
+    ['JUL', 'JULY', 'JUIL', 'JUILLET', 'JULI', 'JULIO', 'LUG', 'LUGLIO', 'JULHO'],
+    ['AUG', 'AUGUST', 'AOU', 'AOUT', 'AGO', 'AGOSTO', 'AUGUSTUS'],
+    ['SEP', 'SEPT', 'SEPTEMBER', 'SEPTEMBRE', 'SEPTIEMBRE', 'SET', 'SETTEMBRE', 'SETEMBRO'],
+    ['OCT', 'OCTOBER', 'OCTOBRE', 'OKT', 'OKTOBER', 'OCTUBRE', 'OTT', 'OTTOBRE', 'OUT', 'OUTUBRO'],
+    ['NOV', 'NOVEMBER', 'NOVEMBRE', 'NOVIEMBRE', 'NOVEMBRO'],
+    ['DEC', 'DECEMBER', 'DECEMBRE', 'DEZ', 'DEZEMBER', 'DIC', 'DICIEMBRE', 'DICEMBRE', 'DEZEMBRO'],
+  ].flatMap((names, i) => names.map(name => [name, i + 1]))
+);
+
+/**
+ * Field labels in the same languages, lowercased with diacritics removed.
+ */
+const FIELD_LABELS: { [kind in DateKind]: string[] } = {
+  birth: [
+    'date of birth', 'birth', 'born', 'dob',
+    'date de naissance', 'naissance',
+    'geburtsdatum', 'geboren',
+    'fecha de nacimiento', 'nacimiento',
+    'data di nascita', 'nascita',
+    'data de nascimento', 'nascimento',
+    'geboortedatum',
+  ],
+  issue: [
+    'date of issue', 'issued', 'issue',
+    'date de delivrance', 'delivrance', 'delivre le',
+    'ausstellungsdatum', 'ausgestellt',
+    'fecha de expedicion', 'expedicion', 'fecha de emision', 'emision',
+    'data di rilascio', 'rilascio',
+    'data de emissao', 'emissao',
+    'datum van afgifte', 'afgifte',
+  ],
+  expiry: [
+    'date of expiry', 'expiry', 'expires', 'valid until', 'exp',
+    "date d'expiration", 'expiration',
+    'gultig bis', 'ablaufdatum',
+    'fecha de caducidad', 'caducidad', 'vencimiento',
+    'data di scadenza', 'scadenza',
+    'data de validade', 'validade',
+    'geldig tot',
+  ],
+};
+
+/**
+ * Issuing states whose numeric dates are not written day first.
+ */
+const NUMERIC_ORDERS: { [country: string]: NumericOrder } = {
+  USA: 'MDY',
+  FSM: 'MDY',
+  MHL: 'MDY',
+  PLW: 'MDY',
+  CHN: 'YMD',
+  HUN: 'YMD',
+  JPN: 'YMD',
+  KOR: 'YMD',
+  LTU: 'YMD',
+  MNG: 'YMD',
+  TWN: 'YMD',
+};
+
+const ISO_DATE = /\b(\d{4})[-./](\d{1,2})[-./](\d{1,2})\b/;
+const NUMERIC_DATE = /\b(\d{1,2})[-./ ](\d{1,2})[-./ ](\d{4}|\d{2})\b/;
+const DAY_MONTH_NAME = /\b(\d{1,2}|XX)[\s./-]*([A-Z]{3,9}(?:\s*\/\s*[A-Z]{3,9})*)\.?[\s./-]*(\d{4}|\d{2})\b/;
+const MONTH_NAME_DAY = /\b([A-Z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})\b/;
+
+function normalise(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase();
+}
+
+export class VIZDateParser {
+  /**
+   * Finds the date of the given kind in printed text. A date counts when it
+   * follows one of the field's labels on the same line or sits on the line
+   * below the label, as on most data pages.
+   */
+  static extract(text: string, kind: DateKind, issuingCountry?: string): VIZDate | null {
+    const lines = normalise(text).split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const labelEnd = this.labelEnd(lines[i], kind);
+      if (labelEnd < 0) continue;
+
+      const found =
+        this.parse(lines[i].substring(labelEnd), kind, issuingCountry) ||
+        (lines[i + 1] !== undefined && this.labelEnd(lines[i + 1], kind) < 0
+          ? this.parse(lines[i + 1], kind, issuingCountry)
+          : null);
+      if (found) return found;
+    }
+
+    return null;
+  }
+
+  /**
+   * Parses the first date in a string: ISO dates, numeric dates ordered by
+   * the issuing state's convention, and month-name dates such as
+   * "15 MAI/MAY 90" or "MAY 15, 1990".
+   */
+  static parse(text: string, kind: DateKind, issuingCountry?: string): VIZDate | null {
+    const upper = normalise(text);
+
+    const monthName = this.parseMonthName(upper, kind);
+    if (monthName) return monthName;
+
+    const iso = upper.match(ISO_DATE);
+    if (iso) {
+      const date = PartialDates.create(parseInt(iso[1]), parseInt(iso[2]), parseInt(iso[3]));
+      if (date) return { date, source: iso[0] };
+    }
+
+    const numeric = upper.match(NUMERIC_DATE);
+    if (numeric) {
+      const date = this.fromNumeric(numeric.slice(1, 4), kind, this.numericOrder(issuingCountry));
+      if (date) return { date, source: numeric[0] };
+    }
+
+    return null;
+  }
+
+  private static parseMonthName(upper: string, kind: DateKind): VIZDate | null {
+    const dayFirst = upper.match(DAY_MONTH_NAME);
+    if (dayFirst) {
+      const month = this.monthFromName(dayFirst[2]);
+      if (month) {
+        const day = dayFirst[1] === 'XX' ? null : parseInt(dayFirst[1]);
+        const date = PartialDates.create(this.fullYear(dayFirst[3], kind, month, day), month, day);
+        if (date) return { date, source: dayFirst[0] };
+      }
+    }
+
+    const monthFirst = upper.match(MONTH_NAME_DAY);
+    if (monthFirst) {
+      const month = this.monthFromName(monthFirst[1]);
+      if (month) {
+        const date = PartialDates.create(parseInt(monthFirst[3]), month, parseInt(monthFirst[2]));
+        if (date) return { date, source: monthFirst[0] };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Bilingual pages print the month in several languages ("MAI/MAY"); the
+   * first name that is a known month wins.
+   */
+  private static monthFromName(names: string): number | null {
+    for (const name of names.split('/').map(n => n.trim())) {
+      if (MONTHS[name]) return MONTHS[name];
+    }
+    return null;
+  }
+
+  /**
+   * Orders the three numeric parts. A part above 12 can only be a day, which
+   * overrides the issuing state's convention.
+   */
+  private static fromNumeric(parts: string[], kind: DateKind, order: NumericOrder): PartialDate | null {
+    const [a, b, c] = parts.map(part => parseInt(part));
+
+    if (order === 'YMD' && parts[2].length === 2) {
+      return PartialDates.create(this.fullYear(parts[0], kind, b, c), b, c);
+    }
+
+    let dayFirst = order === 'DMY';
+    if (a > 12 && b <= 12) dayFirst = true;
+    if (b > 12 && a <= 12) dayFirst = false;
+
+    const day = dayFirst ? a : b;
+    const month = dayFirst ? b : a;
+    return PartialDates.create(this.fullYear(parts[2], kind, month, day), month, day);
+  }
+
+  private static fullYear(year: string, kind: DateKind, month: number | null, day: number | null): number {
+    return year.length === 2 ? PartialDates.resolveCentury(parseInt(year), kind, month, day) : parseInt(year);
+  }
+
+  private static numericOrder(issuingCountry?: string): NumericOrder {
+    return (issuingCountry && NUMERIC_ORDERS[CountryRegistry.normalise(issuingCountry)]) || 'DMY';
+  }
+
+  /**
+   * Index just past the field label on a normalised line, or -1 when the
+   * line has none. Labels match whole words only, so "exp" does not match
+   * "expedicion".
+   */
+  private static labelEnd(line: string, kind: DateKind): number {
+    const lower = line.toLowerCase();
+    let end = -1;
+    for (const label of FIELD_LABELS[kind]) {
+      const match = new RegExp(`(^|[^a-z])${label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![a-z])`).exec(lower);
+      if (match) {
+        end = Math.max(end, match.index + match[0].length);
+      }
+    }
+    return end;
+  }
+}
@@ -0,0 +1,246 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+export interface WebhookConfig {
+  secret: string;
+  maxAttempts: number;
+  /** Delay before the first retry; each further retry waits twice as long. */
+  retryBaseMs: number;
+  timeoutMs: number;
+  /**
+   * Hosts callbacks may go to. When empty, any host is allowed whose
+   * addresses are all public.
+   */
+  allowedHosts: string[];
+}
+
+export class CallbackUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CallbackUrlError';
+  }
+}
+
+export interface DeliveryAttempt {
+  attempt: number;
+  /** HTTP status, or undefined when the request did not complete. */
+  status?: number;
+  error?: string;
+}
+
+export type DeliveryOutcome = { delivered: true; attempts: number } | { delivered: false; attempts: number; error: string };
+
+/** Statuses worth retrying; any other 4xx means the receiver rejected it. */
+function isRetryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Loopback, private, link-local (including cloud metadata at 169.254.169.254),
+ * shared, reserved and multicast ranges. BlockList checks IPv4-mapped IPv6
+ * addresses against the IPv4 ranges.
+ */
+const BLOCKED_ADDRESSES = (() => {
+  const list = new net.BlockList();
+  for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 3],
+  ] as const) {
+    list.addSubnet(network, prefix, 'ipv4');
+  }
+  for (const [network, prefix] of [
+    ['::', 127],
+    ['64:ff9b::', 96],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8],
+  ] as const) {
+    list.addSubnet(network, prefix, 'ipv6');
+  }
+  return list;
+})();
+
+function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+function notPublic(hostname: string, address: string): CallbackUrlError {
+  return new CallbackUrlError(
+    hostname === address ? `${address} is not a public address` : `${hostname} resolves to ${address}, which is not a public address`
+  );
+}
+
+/**
+ * A DNS lookup for outgoing requests that fails when the host resolves to
+ * any non-public address. It runs as the connection is made, so a name that
+ * resolves differently after it was checked still cannot reach the network
+ * inside.
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+      callback(notPublic(hostname, blocked.address), '', 0);
+    } else if (options.all) {
+      (callback as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+export class WebhookSender {
+  /**
+   * HMAC-SHA256 over `<timestamp>.<body>`. Signing the timestamp lets
+   * receivers reject replays of old deliveries.
+   */
+  static sign(body: string, timestamp: number, secret: string): string {
+    return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  /**
+   * Checks a callback URL before a job is accepted: its host must be on the
+   * allow-list, or, without one, resolve only to public addresses. Delivery
+   * checks the addresses again as it connects.
+   */
+  static async checkUrl(url: string, config: WebhookConfig): Promise<void> {
+    const target = this.target(url, config);
+    if (target.trusted) return;
+
+    const addresses = await dns.promises.lookup(target.hostname, { all: true }).catch(() => {
+      throw new CallbackUrlError(`${target.hostname} could not be resolved`);
+    });
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+      throw notPublic(target.hostname, blocked.address);
+    }
+  }
+
+  /**
+   * POSTs the payload as JSON, retrying network failures, timeouts, 408,
+   * 429 and 5xx responses with exponential backoff. Each attempt is signed
+   * afresh so its timestamp is current. Redirects are not followed, and a
+   * host that is not allowed fails at once.
+   */
+  static async deliver(
+    url: string,
+    id: string,
+    payload: unknown,
+    config: WebhookConfig,
+    onAttempt: (attempt: DeliveryAttempt) => void = () => {}
+  ): Promise<DeliveryOutcome> {
+    const body = JSON.stringify(payload);
+    let lastError = '';
+
+    let target: { url: URL; trusted: boolean };
+    try {
+      target = this.target(url, config);
+    } catch (error: any) {
+      onAttempt({ attempt: 1, error: error.message });
+      return { delivered: false, attempts: 1, error: error.message };
+    }
+
+    for (let attempt = 1; attempt <= config.maxAttempts; attempt++) {
+      const timestamp = Math.floor(Date.now() / 1000);
+      try {
+        const status = await this.post(target.url, target.trusted, config.timeoutMs, body, {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': id,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': this.sign(body, timestamp, config.secret),
+        });
+        onAttempt({ attempt, status });
+
+        if (status >= 200 && status < 300) {
+          return { delivered: true, attempts: attempt };
+        }
+        lastError = `Receiver responded ${status}`;
+        if (!isRetryable(status)) {
+          return { delivered: false, attempts: attempt, error: lastError };
+        }
+      } catch (error: any) {
+        lastError = error.message;
+        onAttempt({ attempt, error: lastError });
+        if (error instanceof CallbackUrlError) {
+          return { delivered: false, attempts: attempt, error: lastError };
+        }
+      }
+
+      if (attempt < config.maxAttempts) {
+        await sleep(config.retryBaseMs * 2 ** (attempt - 1));
+      }
+    }
+
+    return { delivered: false, attempts: config.maxAttempts, error: lastError };
+  }
+
+  /** Parses a callback URL; hosts on the allow-list are trusted, others must be public. */
+  private static target(url: string, config: WebhookConfig): { url: URL; hostname: string; trusted: boolean } {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new CallbackUrlError('Must be an absolute http or https URL');
+    }
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new CallbackUrlError('Must be an absolute http or https URL');
+    }
+
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (config.allowedHosts.length > 0 && !config.allowedHosts.includes(hostname)) {
+      throw new CallbackUrlError(`${hostname} is not an allowed callback host`);
+    }
+    return { url: parsed, hostname, trusted: config.allowedHosts.length > 0 };
+  }
+
+  /** One POST, resolving with the response status once its headers arrive. */
+  private static post(
+    url: URL,
+    trusted: boolean,
+    timeoutMs: number,
+    body: string,
+    headers: { [name: string]: string }
+  ): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const request = (url.protocol === 'https:' ? https : http).request(
+        url,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+          ...(trusted ? {} : { lookup: publicLookup }),
+        },
+        response => {
+          clearTimeout(timer);
+          response.resume();
+          resolve(response.statusCode || 0);
+        }
+      );
+      const timer = setTimeout(() => request.destroy(new Error(`No response within ${timeoutMs}ms`)), timeoutMs);
+      request.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      request.end(body);
+    });
+  }
+}